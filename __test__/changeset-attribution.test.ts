@@ -0,0 +1,142 @@
+import * as core from "@actions/core";
+import { getExecOutput } from "@actions/exec";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { attributeChangesets, findChangesetCommits } from "../src/utils/changeset-attribution.js";
+import type { ParsedChangeset } from "../src/utils/parse-changesets.js";
+
+vi.mock("@actions/core");
+vi.mock("@actions/exec");
+
+type Context = typeof githubContext;
+type Octokit = ReturnType<typeof getOctokit>;
+
+const context = {
+	eventName: "push",
+	sha: "head-sha",
+	payload: {},
+	repo: { owner: "test-owner", repo: "test-repo" },
+} as unknown as Context;
+
+const gitLog = [
+	"commit newer-sha",
+	"",
+	".changeset/brave-cats-run.md",
+	"",
+	"commit older-sha",
+	"",
+	".changeset/quiet-dogs-sleep.md",
+	".changeset/brave-cats-run.md",
+	".changeset/config.json",
+	"",
+].join("\n");
+
+function mockGit(log: string, shallow = "false"): void {
+	vi.mocked(getExecOutput).mockImplementation((_command, args) =>
+		Promise.resolve({
+			exitCode: 0,
+			stdout: args?.[0] === "rev-parse" ? `${shallow}\n` : log,
+			stderr: "",
+		}),
+	);
+}
+
+function makeChangeset(id: string): ParsedChangeset {
+	return { id, summary: "Change", releases: [{ name: "pkg-a", type: "patch" }] };
+}
+
+function makeOctokit(listPullRequestsAssociatedWithCommit: ReturnType<typeof vi.fn>): Octokit {
+	return { rest: { repos: { listPullRequestsAssociatedWithCommit } } } as unknown as Octokit;
+}
+
+describe("changeset-attribution", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("findChangesetCommits", () => {
+		it("should map each changeset to the most recent commit adding it", async () => {
+			mockGit(gitLog);
+
+			const commits = await findChangesetCommits();
+
+			expect(getExecOutput).toHaveBeenCalledWith(
+				"git",
+				["log", "--diff-filter=A", "--format=commit %H", "--name-only", "--", ".changeset"],
+				{ silent: true },
+			);
+			expect(commits).toEqual(
+				new Map([
+					["brave-cats-run", "newer-sha"],
+					["quiet-dogs-sleep", "older-sha"],
+				]),
+			);
+		});
+
+		it("should return nothing in a shallow clone", async () => {
+			mockGit(gitLog, "true");
+
+			await expect(findChangesetCommits()).resolves.toEqual(new Map());
+			expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("shallow clone"));
+			expect(getExecOutput).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe("attributeChangesets", () => {
+		it("should add the commit, pull request and author", async () => {
+			mockGit(gitLog);
+			const listPRs = vi.fn().mockImplementation(({ commit_sha }: { commit_sha: string }) =>
+				Promise.resolve({
+					data:
+						commit_sha === "newer-sha"
+							? [
+									{ number: 40, merged_at: null, user: { login: "someone" } },
+									{ number: 42, merged_at: "2026-01-01T00:00:00Z", user: { login: "octocat" } },
+								]
+							: [],
+				}),
+			);
+
+			const result = await attributeChangesets(
+				[makeChangeset("brave-cats-run"), makeChangeset("quiet-dogs-sleep"), makeChangeset("not-committed")],
+				{ context, octokit: makeOctokit(listPRs) },
+			);
+
+			expect(listPRs).toHaveBeenCalledWith({ owner: "test-owner", repo: "test-repo", commit_sha: "newer-sha" });
+			expect(result).toEqual([
+				{ ...makeChangeset("brave-cats-run"), commit: "newer-sha", pullRequest: 42, author: "octocat" },
+				{ ...makeChangeset("quiet-dogs-sleep"), commit: "older-sha" },
+				makeChangeset("not-committed"),
+			]);
+		});
+
+		it("should only add commits without a token", async () => {
+			mockGit(gitLog);
+
+			const result = await attributeChangesets([makeChangeset("brave-cats-run")], { context });
+
+			expect(result).toEqual([{ ...makeChangeset("brave-cats-run"), commit: "newer-sha" }]);
+		});
+
+		it("should warn and keep the commit when the API fails", async () => {
+			mockGit(gitLog);
+			const listPRs = vi.fn().mockRejectedValue(new Error("Bad credentials"));
+
+			const result = await attributeChangesets([makeChangeset("brave-cats-run")], {
+				context,
+				octokit: makeOctokit(listPRs),
+			});
+
+			expect(result).toEqual([{ ...makeChangeset("brave-cats-run"), commit: "newer-sha" }]);
+			expect(core.warning).toHaveBeenCalledWith("Failed to find the pull request of commit newer-s: Bad credentials");
+		});
+
+		it("should leave changesets unattributed when git fails", async () => {
+			vi.mocked(getExecOutput).mockRejectedValue(new Error("not a git repository"));
+			const changesets = [makeChangeset("brave-cats-run")];
+
+			await expect(attributeChangesets(changesets, { context })).resolves.toBe(changesets);
+			expect(core.warning).toHaveBeenCalledWith("Failed to read changeset history: not a git repository");
+		});
+	});
+});
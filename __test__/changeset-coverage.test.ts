@@ -0,0 +1,157 @@
+import { describe, expect, it } from "vitest";
+import type { ChangesetCoverageOptions } from "../src/utils/changeset-coverage.js";
+import { checkChangesetCoverage, matchGlob } from "../src/utils/changeset-coverage.js";
+import type { ChangesetConfig, ParsedChangeset } from "../src/utils/parse-changesets.js";
+import type { WorkspacePackage } from "../src/utils/workspace-packages.js";
+
+const defaultConfig: ChangesetConfig = {
+	changelog: "@changesets/cli/changelog",
+	ignore: [],
+	fixed: [],
+	linked: [],
+	updateInternalDependencies: "patch",
+	privatePackages: { version: true, tag: false },
+};
+
+function makePackage(name: string, path: string, overrides: Partial<WorkspacePackage> = {}): WorkspacePackage {
+	return { name, version: "1.0.0", path, private: false, dependencies: [], ...overrides };
+}
+
+function makeOptions(overrides: Partial<ChangesetCoverageOptions> = {}): ChangesetCoverageOptions {
+	return {
+		files: [],
+		changesets: [],
+		packages: new Map([
+			["pkg-a", makePackage("pkg-a", "packages/a")],
+			["pkg-a-plugin", makePackage("pkg-a-plugin", "packages/a/plugin")],
+			["pkg-b", makePackage("pkg-b", "packages/b")],
+			["docs", makePackage("docs", "website", { private: true })],
+		]),
+		config: defaultConfig,
+		...overrides,
+	};
+}
+
+function makeChangeset(id: string, names: string[]): ParsedChangeset {
+	return { id, summary: "Change", releases: names.map((name) => ({ name, type: "patch" as const })) };
+}
+
+describe("changeset-coverage", () => {
+	describe("checkChangesetCoverage", () => {
+		it("should report changed packages without a changeset", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({
+					files: [
+						{ filename: "packages/a/src/index.ts", status: "modified" },
+						{ filename: "packages/b/src/index.ts", status: "modified" },
+					],
+				}),
+			);
+
+			expect(result.missing).toEqual(["pkg-a", "pkg-b"]);
+			expect(result.packages[0]).toEqual({ name: "pkg-a", files: ["packages/a/src/index.ts"], changesets: [] });
+		});
+
+		it("should count changesets added or modified by the pull request", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({
+					files: [
+						{ filename: "packages/a/src/index.ts", status: "modified" },
+						{ filename: "packages/b/src/index.ts", status: "modified" },
+						{ filename: ".changeset/brave-cats-run.md", status: "added" },
+						{ filename: ".changeset/quiet-dogs-sleep.md", status: "modified" },
+					],
+					changesets: [
+						makeChangeset("brave-cats-run", ["pkg-a"]),
+						makeChangeset("quiet-dogs-sleep", ["pkg-b"]),
+						makeChangeset("old-news", ["pkg-a", "pkg-b"]),
+					],
+				}),
+			);
+
+			expect(result.missing).toEqual([]);
+			expect(result.packages.map((pkg) => pkg.changesets)).toEqual([["brave-cats-run"], ["quiet-dogs-sleep"]]);
+		});
+
+		it("should ignore changesets already on the base branch", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({
+					files: [{ filename: "packages/a/src/index.ts", status: "modified" }],
+					changesets: [makeChangeset("old-news", ["pkg-a"])],
+				}),
+			);
+
+			expect(result.missing).toEqual(["pkg-a"]);
+		});
+
+		it("should map files to the most deeply nested package", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({ files: [{ filename: "packages/a/plugin/index.ts", status: "added" }] }),
+			);
+
+			expect(result.missing).toEqual(["pkg-a-plugin"]);
+		});
+
+		it("should skip private packages, ignored packages and files outside packages", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({
+					files: [
+						{ filename: "website/index.md", status: "modified" },
+						{ filename: "packages/b/src/index.ts", status: "modified" },
+						{ filename: "package.json", status: "modified" },
+					],
+					config: { ...defaultConfig, ignore: ["pkg-b"] },
+				}),
+			);
+
+			expect(result.packages).toEqual([]);
+			expect(result.missing).toEqual([]);
+		});
+
+		it("should skip files matching an ignore glob", () => {
+			const result = checkChangesetCoverage(
+				makeOptions({
+					files: [
+						{ filename: "packages/a/README.md", status: "modified" },
+						{ filename: "packages/b/src/index.test.ts", status: "modified" },
+					],
+					ignore: ["*.md", "**/*.test.ts"],
+				}),
+			);
+
+			expect(result.missing).toEqual([]);
+			expect(result.ignoredFiles).toEqual(["packages/a/README.md", "packages/b/src/index.test.ts"]);
+		});
+
+		it("should attribute files to a root package", () => {
+			const result = checkChangesetCoverage({
+				files: [{ filename: "src/index.ts", status: "modified" }],
+				changesets: [],
+				packages: new Map([["root-pkg", makePackage("root-pkg", ".")]]),
+				config: defaultConfig,
+			});
+
+			expect(result.missing).toEqual(["root-pkg"]);
+		});
+	});
+
+	describe("matchGlob", () => {
+		it("should match globs with directories", () => {
+			expect(matchGlob("docs/**", "docs/guide/intro.md")).toBe(true);
+			expect(matchGlob("packages/*/README.md", "packages/a/README.md")).toBe(true);
+			expect(matchGlob("packages/*/README.md", "packages/a/docs/README.md")).toBe(false);
+			expect(matchGlob("**/__test__/**", "packages/a/__test__/index.test.ts")).toBe(true);
+		});
+
+		it("should match globs without a slash in any directory", () => {
+			expect(matchGlob("*.md", "README.md")).toBe(true);
+			expect(matchGlob("*.md", "packages/a/CHANGELOG.md")).toBe(true);
+			expect(matchGlob("*.md", "packages/a/index.ts")).toBe(false);
+		});
+
+		it("should treat dots and ? literally and as a single character", () => {
+			expect(matchGlob("file?.ts", "src/file1.ts")).toBe(true);
+			expect(matchGlob("*.ts", "src/index_ts")).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,164 @@
+import { getExecOutput } from "@actions/exec";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	classifyChangesetFiles,
+	diffChangesets,
+	diffChangesetsWithGit,
+	getDiffRange,
+	listChangedFilesWithGit,
+} from "../src/utils/changeset-diff.js";
+
+vi.mock("@actions/core");
+vi.mock("@actions/exec");
+
+type Context = typeof githubContext;
+
+function makeContext(eventName: string, payload: Record<string, unknown>): Context {
+	return {
+		eventName,
+		sha: "head-sha",
+		payload,
+		repo: { owner: "test-owner", repo: "test-repo" },
+	} as unknown as Context;
+}
+
+describe("changeset-diff", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("getDiffRange", () => {
+		it("should use the pull request base and head", () => {
+			const context = makeContext("pull_request", { pull_request: { base: { sha: "b1" }, head: { sha: "h1" } } });
+
+			expect(getDiffRange(context)).toEqual({ base: "b1", head: "h1" });
+		});
+
+		it("should use before and after for pushes", () => {
+			expect(getDiffRange(makeContext("push", { before: "b2", after: "h2" }))).toEqual({ base: "b2", head: "h2" });
+		});
+
+		it("should use the merge group base and head", () => {
+			const context = makeContext("merge_group", { merge_group: { base_sha: "b3", head_sha: "h3" } });
+
+			expect(getDiffRange(context)).toEqual({ base: "b3", head: "h3" });
+		});
+
+		it("should return null for new branches and other events", () => {
+			expect(
+				getDiffRange(makeContext("push", { before: "0000000000000000000000000000000000000000", after: "h" })),
+			).toBeNull();
+			expect(getDiffRange(makeContext("workflow_dispatch", {}))).toBeNull();
+		});
+	});
+
+	describe("classifyChangesetFiles", () => {
+		it("should sort changeset files by change type", () => {
+			expect(
+				classifyChangesetFiles([
+					{ filename: ".changeset/new-one.md", status: "added" },
+					{ filename: ".changeset/edited.md", status: "modified" },
+					{ filename: ".changeset/gone.md", status: "removed" },
+					{ filename: ".changeset/moved.md", status: "renamed", previous_filename: ".changeset/old-name.md" },
+					{ filename: ".changeset/README.md", status: "added" },
+					{ filename: ".changeset/config.json", status: "modified" },
+					{ filename: "src/index.ts", status: "added" },
+				]),
+			).toEqual({ added: ["moved", "new-one"], modified: ["edited"], removed: ["gone", "old-name"] });
+		});
+	});
+
+	describe("diffChangesetsWithGit", () => {
+		it("should parse git name-status output", async () => {
+			vi.mocked(getExecOutput).mockResolvedValue({
+				exitCode: 0,
+				stdout: "A\t.changeset/new-one.md\nD\t.changeset/gone.md\nR100\t.changeset/a.md\t.changeset/b.md\n",
+				stderr: "",
+			});
+
+			const diff = await diffChangesetsWithGit({ base: "b", head: "h" });
+
+			expect(getExecOutput).toHaveBeenCalledWith("git", ["diff", "--name-status", "-M", "b...h", "--", ".changeset"], {
+				silent: true,
+			});
+			expect(diff).toEqual({
+				base: "b",
+				head: "h",
+				source: "git",
+				added: ["b", "new-one"],
+				modified: [],
+				removed: ["a", "gone"],
+			});
+		});
+	});
+
+	describe("listChangedFilesWithGit", () => {
+		it("should list every file changed since the merge base", async () => {
+			vi.mocked(getExecOutput).mockResolvedValue({
+				exitCode: 0,
+				stdout: "M\tpackages/a/src/index.ts\nA\t.changeset/new-one.md\n",
+				stderr: "",
+			});
+
+			const files = await listChangedFilesWithGit({ base: "base-sha", head: "head-sha" });
+
+			expect(getExecOutput).toHaveBeenCalledWith("git", ["diff", "--name-status", "-M", "base-sha...head-sha", "--"], {
+				silent: true,
+			});
+			expect(files).toEqual([
+				{ filename: "packages/a/src/index.ts", status: "modified" },
+				{ filename: ".changeset/new-one.md", status: "added" },
+			]);
+		});
+	});
+
+	describe("diffChangesets", () => {
+		const context = makeContext("push", { before: "b", after: "h" });
+
+		it("should use the compare API when an Octokit instance is given", async () => {
+			const compareCommits = vi.fn().mockResolvedValue({
+				data: { files: [{ filename: ".changeset/new-one.md", status: "added" }] },
+			});
+			const octokit = { rest: { repos: { compareCommits } } } as unknown as ReturnType<typeof getOctokit>;
+
+			const diff = await diffChangesets({ context, octokit });
+
+			expect(compareCommits).toHaveBeenCalledWith({ owner: "test-owner", repo: "test-repo", base: "b", head: "h" });
+			expect(diff).toMatchObject({ source: "api", added: ["new-one"], removed: [] });
+		});
+
+		it("should use the pull request files API for pull requests", async () => {
+			const compareCommits = vi.fn();
+			const listFiles = vi.fn();
+			const paginate = vi.fn().mockResolvedValue([{ filename: ".changeset/new-one.md", status: "added" }]);
+			const octokit = { paginate, rest: { repos: { compareCommits }, pulls: { listFiles } } } as unknown as ReturnType<
+				typeof getOctokit
+			>;
+			const prContext = makeContext("pull_request", {
+				pull_request: { number: 7, base: { sha: "b" }, head: { sha: "h" } },
+			});
+
+			const diff = await diffChangesets({ context: prContext, octokit });
+
+			expect(paginate).toHaveBeenCalledWith(listFiles, {
+				owner: "test-owner",
+				repo: "test-repo",
+				pull_number: 7,
+				per_page: 100,
+			});
+			expect(compareCommits).not.toHaveBeenCalled();
+			expect(diff).toMatchObject({ source: "api", added: ["new-one"] });
+		});
+
+		it("should return null when listing fails", async () => {
+			vi.mocked(getExecOutput).mockRejectedValue(new Error("bad revision"));
+
+			expect(await diffChangesets({ context })).toBeNull();
+		});
+
+		it("should return null without a commit range", async () => {
+			expect(await diffChangesets({ context: makeContext("schedule", {}) })).toBeNull();
+		});
+	});
+});
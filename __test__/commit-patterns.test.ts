@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { getDefaultCommitPatterns, parseCommitPatterns } from "../src/utils/commit-patterns.js";
+
+describe("commit-patterns", () => {
+	describe("parseCommitPatterns", () => {
+		it("should return an empty list for empty input", () => {
+			expect(parseCommitPatterns("", "release-version-patterns")).toEqual([]);
+		});
+
+		it("should compile one pattern per line", () => {
+			const patterns = parseCommitPatterns("^release: publish packages\n\nBot release", "release-version-patterns");
+
+			expect(patterns).toHaveLength(2);
+			expect(patterns[0].test("release: publish packages [skip ci]")).toBe(true);
+			expect(patterns[1].test("chore: Bot release")).toBe(true);
+		});
+
+		it("should support /source/flags literals", () => {
+			const [pattern] = parseCommitPatterns("/^RELEASE:/i", "release-version-patterns");
+
+			expect(pattern.flags).toBe("i");
+			expect(pattern.test("release: v1")).toBe(true);
+		});
+
+		it("should throw with the input name for invalid patterns", () => {
+			expect(() => parseCommitPatterns("release: (unclosed", "release-merge-patterns")).toThrow(
+				/Invalid pattern "release: \(unclosed" in release-merge-patterns/,
+			);
+		});
+	});
+
+	describe("getDefaultCommitPatterns", () => {
+		const defaults = getDefaultCommitPatterns("changeset-release/main", "test-owner");
+
+		it("should match merge commits from the release branch", () => {
+			const messages = [
+				"Merge pull request #1 from test-owner/changeset-release/main",
+				"Merge branch 'changeset-release/main' into main",
+			];
+
+			for (const message of messages) {
+				expect(defaults.merge.some((pattern) => pattern.test(message))).toBe(true);
+			}
+		});
+
+		it("should not match merges from other branches", () => {
+			expect(defaults.merge.some((pattern) => pattern.test("Merge pull request #2 from test-owner/feature"))).toBe(
+				false,
+			);
+		});
+
+		it("should match version commits", () => {
+			for (const message of ["chore: version packages", "Version Packages", "chore: release v1.0.0"]) {
+				expect(defaults.version.some((pattern) => pattern.test(message))).toBe(true);
+			}
+		});
+	});
+});
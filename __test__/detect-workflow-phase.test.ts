@@ -244,6 +244,759 @@ describe("detect-workflow-phase", () => {
 			expect(result.commitMessage.endsWith("...")).toBe(true);
 		});
 
+		it("should detect pre-release-publishing when pre mode is active", async () => {
+			mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+				data: [
+					{
+						number: 42,
+						merged_at: "2024-01-01T00:00:00Z",
+						head: { ref: "changeset-release/main" },
+						base: { ref: "main" },
+					},
+				],
+			});
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				preState: { mode: "pre", tag: "next", initialVersions: {}, changesets: [] },
+			});
+
+			expect(result.phase).toBe("pre-release-publishing");
+			expect(result.isPreRelease).toBe(true);
+			expect(result.preTag).toBe("next");
+			expect(result.reason).toContain('pre mode, tag "next"');
+		});
+
+		it("should detect plain publishing after exiting pre mode", async () => {
+			mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+				data: [
+					{
+						number: 42,
+						merged_at: "2024-01-01T00:00:00Z",
+						head: { ref: "changeset-release/main" },
+						base: { ref: "main" },
+					},
+				],
+			});
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				preState: { mode: "exit", tag: "next", initialVersions: {}, changesets: [] },
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(result.isPreRelease).toBe(false);
+			expect(result.preTag).toBeUndefined();
+		});
+
+		it("should resolve branches from a matching release line", async () => {
+			mockContext.ref = "refs/heads/changeset-release/release/1.x";
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				releaseLines: [{ target: "release/*", release: "changeset-release/release/*" }],
+			});
+
+			expect(result.phase).toBe("validation");
+			expect(result.releaseLine).toEqual({
+				name: "release/1.x",
+				targetBranch: "release/1.x",
+				releaseBranch: "changeset-release/release/1.x",
+			});
+			expect(result.reason).toBe("Push to release branch changeset-release/release/1.x");
+		});
+
+		it("should resolve release lines from pull request base and head", async () => {
+			mockContext.eventName = "pull_request";
+			mockContext.ref = "refs/pull/7/merge";
+			mockContext.payload = {
+				pull_request: {
+					number: 7,
+					merged: false,
+					head: { ref: "changeset-release/release/1.x" },
+					base: { ref: "release/1.x" },
+				},
+			};
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				releaseLines: [{ target: "release/*", release: "changeset-release/release/*" }],
+			});
+
+			expect(result.phase).toBe("validation");
+			expect(result.releaseLine?.name).toBe("release/1.x");
+		});
+
+		it("should fall back to configured branches when no release line matches", async () => {
+			mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				releaseLines: [{ target: "release/*", release: "changeset-release/release/*" }],
+			});
+
+			expect(result.phase).toBe("branch-management");
+			expect(result.releaseLine).toBeUndefined();
+		});
+
+		describe("release PR matcher", () => {
+			const labelMatcher = { strategies: ["label" as const], labels: ["release"], authors: [] };
+
+			it("should detect an open release PR by label", async () => {
+				mockContext.eventName = "pull_request";
+				mockContext.ref = "refs/pull/42/merge";
+				mockContext.payload = {
+					pull_request: {
+						number: 42,
+						merged: false,
+						head: { ref: "release/run-123" },
+						base: { ref: "main" },
+						labels: [{ name: "release" }],
+					},
+				};
+
+				const result = await detectWorkflowPhase({ ...createOptions(), releasePRMatcher: labelMatcher });
+
+				expect(result.phase).toBe("validation");
+				expect(result.reason).toBe("Open PR #42 from release/run-123 to main");
+			});
+
+			it("should detect a merged release PR by author", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+					data: [
+						{
+							number: 7,
+							merged_at: "2024-01-01T00:00:00Z",
+							head: { ref: "release/run-123" },
+							base: { ref: "main" },
+							labels: [],
+							user: { login: "release-bot[bot]" },
+						},
+					],
+				});
+
+				const result = await detectWorkflowPhase({
+					...createOptions(),
+					releasePRMatcher: { strategies: ["author"], labels: [], authors: ["release-bot[bot]"] },
+				});
+
+				expect(result.phase).toBe("publishing");
+				expect(result.mergedReleasePRNumber).toBe(7);
+				expect(result.reason).toBe("Merged release PR #7 from release/run-123");
+			});
+
+			it("should not match release branch PRs without the label", async () => {
+				mockContext.eventName = "pull_request";
+				mockContext.ref = "refs/pull/99/merge";
+				mockContext.payload = {
+					pull_request: {
+						number: 99,
+						merged: true,
+						head: { ref: "changeset-release/main" },
+						base: { ref: "main" },
+						labels: [],
+					},
+				};
+
+				const result = await detectWorkflowPhase({ ...createOptions(), releasePRMatcher: labelMatcher });
+
+				expect(result.phase).toBe("none");
+				expect(result.isReleasePRMerged).toBe(false);
+			});
+
+			it("should detect a labelled release PR in the merge queue", async () => {
+				mockContext.eventName = "merge_group";
+				mockContext.payload = {
+					merge_group: {
+						head_ref: "refs/heads/gh-readonly-queue/main/pr-12-0123abcd",
+						base_ref: "refs/heads/main",
+					},
+				};
+				mockOctokit.rest.pulls.get.mockResolvedValue({
+					data: { number: 12, head: { ref: "release/run-123" }, base: { ref: "main" }, labels: [{ name: "release" }] },
+				});
+
+				const result = await detectWorkflowPhase({ ...createOptions(), releasePRMatcher: labelMatcher });
+
+				expect(result.phase).toBe("validation");
+				expect(result.reason).toBe("Merge queue for main contains release PR #12");
+			});
+		});
+
+		describe("decision trace", () => {
+			it("should trace branches, the release commit check and rules up to the match", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				const result = await detectWorkflowPhase(createOptions());
+				const steps = result.decisionTrace.map((entry) => entry.step);
+
+				expect(steps).toEqual([
+					"branches",
+					"release-commit",
+					"rule release-pr-merged",
+					"rule release-pr-open",
+					"rule release-pr-queued",
+					"rule pre-release-commit",
+					"rule release-commit",
+					"rule release-branch-push",
+					"rule target-branch-push",
+				]);
+				expect(result.decisionTrace[1]).toEqual({
+					step: "release-commit",
+					matched: false,
+					inputs: { sha: "abc123", commitsChecked: 1, mergedPRNumber: null, releaseCommitSha: null },
+					detail: "No merged release PR found via API",
+				});
+				expect(result.decisionTrace.at(-1)).toMatchObject({ matched: true, inputs: { branch: "target" } });
+			});
+
+			it("should note the commit message fallback", async () => {
+				mockContext.payload = { head_commit: { message: "chore: version packages" } };
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockRejectedValue(new Error("API Error"));
+
+				const result = await detectWorkflowPhase(createOptions());
+				const entry = result.decisionTrace.find((e) => e.step === "release-commit");
+
+				expect(entry?.matched).toBe(true);
+				expect(entry?.detail).toContain("API failed (API Error), used commit message fallback");
+			});
+
+			it("should trace the release PR check for pull_request events", async () => {
+				mockContext.eventName = "pull_request";
+				mockContext.ref = "refs/pull/3/merge";
+				mockContext.payload = {
+					pull_request: { number: 3, merged: false, head: { ref: "feature/x" }, base: { ref: "main" } },
+				};
+
+				const result = await detectWorkflowPhase(createOptions());
+				const entry = result.decisionTrace.find((e) => e.step === "release-pr");
+
+				expect(entry).toMatchObject({
+					matched: false,
+					inputs: { number: 3, head: "feature/x", base: "main", merged: false, strategies: ["branch"] },
+				});
+			});
+		});
+
+		describe("phase rules", () => {
+			it("should pick a custom phase from a matching rule", async () => {
+				mockContext.eventName = "pull_request";
+				mockContext.ref = "refs/pull/5/merge";
+				mockContext.payload = {
+					pull_request: {
+						number: 5,
+						merged: false,
+						head: { ref: "docs/update" },
+						base: { ref: "main" },
+						labels: [{ name: "docs" }],
+					},
+				};
+
+				const result = await detectWorkflowPhase({
+					...createOptions(),
+					phaseRules: [
+						{
+							name: "docs-preview",
+							phase: "docs-preview",
+							when: { event: "pull_request", labels: ["docs"] },
+							reason: "Docs PR #{pr} from {headRef}",
+						},
+					],
+				});
+
+				expect(result.phase).toBe("docs-preview");
+				expect(result.matchedRule).toBe("docs-preview");
+				expect(result.reason).toBe("Docs PR #5 from docs/update");
+			});
+
+			it("should evaluate changeset presence", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+				const phaseRules = [{ name: "idle", phase: "none", when: { branch: "target" as const, hasChangesets: false } }];
+
+				const idle = await detectWorkflowPhase({ ...createOptions(), phaseRules, hasChangesets: false });
+				const pending = await detectWorkflowPhase({ ...createOptions(), phaseRules, hasChangesets: true });
+
+				expect(idle.reason).toBe('Matched rule "idle"');
+				expect(pending.matchedRule).toBeUndefined();
+				expect(pending.reason).toBe("Not on main or changeset-release/main branch");
+			});
+
+			it("should report the built-in rule that matched", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.matchedRule).toBe("target-branch-push");
+			});
+		});
+
+		describe("merge_group events", () => {
+			beforeEach(() => {
+				mockContext.eventName = "merge_group";
+				mockContext.ref = "refs/heads/gh-readonly-queue/main/pr-12-0123abcd";
+				mockContext.payload = {
+					merge_group: {
+						head_ref: "refs/heads/gh-readonly-queue/main/pr-12-0123abcd",
+						head_sha: "0123abcd",
+						base_ref: "refs/heads/main",
+						base_sha: "base456",
+					},
+				};
+			});
+
+			it("should detect validation when the queue contains the release PR", async () => {
+				mockOctokit.rest.repos.compareCommits.mockResolvedValue({
+					data: {
+						commits: [
+							{ commit: { message: "Merge pull request #10 from test-owner/changeset-release/main" } },
+							{ commit: { message: "feat: something (#12)" } },
+						],
+					},
+				});
+				mockOctokit.rest.pulls.get.mockImplementation(({ pull_number }: { pull_number: number }) =>
+					Promise.resolve({
+						data: {
+							number: pull_number,
+							head: { ref: pull_number === 10 ? "changeset-release/main" : "feature/x" },
+							base: { ref: "main" },
+						},
+					}),
+				);
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("validation");
+				expect(result.isMergeGroupEvent).toBe(true);
+				expect(result.queuedPRNumbers).toEqual([10, 12]);
+				expect(result.reason).toBe("Merge queue for main contains release PR #10");
+			});
+
+			it("should return none when the queue has no release PR", async () => {
+				mockOctokit.rest.pulls.get.mockResolvedValue({
+					data: { number: 12, head: { ref: "feature/x" }, base: { ref: "main" } },
+				});
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("none");
+				expect(result.queuedPRNumbers).toEqual([12]);
+				expect(result.reason).toContain("does not contain a release PR");
+			});
+
+			it("should ignore merge queues for other branches", async () => {
+				mockContext.payload = {
+					merge_group: {
+						head_ref: "refs/heads/gh-readonly-queue/develop/pr-12-0123abcd",
+						base_ref: "refs/heads/develop",
+					},
+				};
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("none");
+				expect(mockOctokit.rest.pulls.get).not.toHaveBeenCalled();
+			});
+
+			it("should warn and keep queued PRs when the API fails", async () => {
+				mockOctokit.rest.repos.compareCommits.mockRejectedValue(new Error("API Error"));
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("none");
+				expect(result.queuedPRNumbers).toEqual([12]);
+				expect(core.warning).toHaveBeenCalledWith(expect.stringContaining("Failed to inspect merge queue PRs"));
+			});
+		});
+
+		describe("workflow_dispatch phase override", () => {
+			beforeEach(() => {
+				mockContext.eventName = "workflow_dispatch";
+				mockContext.payload = { inputs: {} };
+			});
+
+			it("should allow publishing on main at a release commit", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+					data: [
+						{
+							number: 42,
+							merged_at: "2024-01-01T00:00:00Z",
+							head: { ref: "changeset-release/main" },
+							base: { ref: "main" },
+						},
+					],
+				});
+
+				const result = await detectWorkflowPhase({ ...createOptions(), requestedPhase: "publishing" });
+
+				expect(result.phase).toBe("publishing");
+				expect(result.mergedReleasePRNumber).toBe(42);
+				expect(result.reason).toBe(
+					"Manual override via workflow_dispatch: publishing at release commit abc123 on main",
+				);
+			});
+
+			it("should read the requested phase from dispatch inputs", async () => {
+				mockContext.ref = "refs/heads/changeset-release/main";
+				mockContext.payload = { inputs: { phase: "validation" } };
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("validation");
+				expect(result.reason).toContain("Manual override via workflow_dispatch");
+			});
+
+			it("should reject publishing when the commit is not a release commit", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				await expect(detectWorkflowPhase({ ...createOptions(), requestedPhase: "publishing" })).rejects.toThrow(
+					'Requested phase "publishing" is not allowed: abc123 on main is not a release commit',
+				);
+			});
+
+			it("should reject publishing outside the target branch", async () => {
+				mockContext.ref = "refs/heads/feature/x";
+
+				await expect(detectWorkflowPhase({ ...createOptions(), requestedPhase: "publishing" })).rejects.toThrow(
+					"run it on main",
+				);
+			});
+
+			it("should reject the wrong publishing flavor in pre mode", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+					data: [
+						{
+							number: 42,
+							merged_at: "2024-01-01T00:00:00Z",
+							head: { ref: "changeset-release/main" },
+							base: { ref: "main" },
+						},
+					],
+				});
+
+				await expect(
+					detectWorkflowPhase({
+						...createOptions(),
+						requestedPhase: "publishing",
+						preState: { mode: "pre", tag: "next", initialVersions: {}, changesets: [] },
+					}),
+				).rejects.toThrow('request "pre-release-publishing" instead');
+			});
+
+			it("should reject validation outside the release branch", async () => {
+				await expect(detectWorkflowPhase({ ...createOptions(), requestedPhase: "validation" })).rejects.toThrow(
+					"run it on changeset-release/main",
+				);
+			});
+
+			it("should reject close-issues without a merged release PR", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				await expect(detectWorkflowPhase({ ...createOptions(), requestedPhase: "close-issues" })).rejects.toThrow(
+					"no merged release PR found",
+				);
+			});
+
+			it("should reject unknown phases", async () => {
+				await expect(detectWorkflowPhase({ ...createOptions(), requestedPhase: "deploy" })).rejects.toThrow(
+					'Requested phase "deploy" is not a known phase',
+				);
+			});
+
+			it("should ignore requested phases for other events", async () => {
+				mockContext.eventName = "push";
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				const result = await detectWorkflowPhase({ ...createOptions(), requestedPhase: "publishing" });
+
+				expect(result.phase).toBe("branch-management");
+			});
+		});
+
+		describe("workflow_run events", () => {
+			beforeEach(() => {
+				mockContext.eventName = "workflow_run";
+				mockContext.ref = "refs/heads/main";
+				mockContext.sha = "default-sha";
+				mockContext.payload = {
+					workflow_run: {
+						name: "Release Validation",
+						event: "push",
+						conclusion: "success",
+						head_branch: "changeset-release/main",
+						head_sha: "run-sha",
+						head_commit: { message: "chore: version packages" },
+						pull_requests: [],
+					},
+				};
+			});
+
+			it("should detect against the triggering run's branch", async () => {
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("validation");
+				expect(result.isReleaseBranch).toBe(true);
+				expect(result.workflowRun).toEqual({
+					name: "Release Validation",
+					event: "push",
+					conclusion: "success",
+					headBranch: "changeset-release/main",
+					headSha: "run-sha",
+				});
+			});
+
+			it("should query release commits for the triggering run's sha", async () => {
+				(mockContext.payload.workflow_run as { head_branch: string }).head_branch = "main";
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({
+					data: [
+						{
+							number: 42,
+							merged_at: "2024-01-01T00:00:00Z",
+							head: { ref: "changeset-release/main" },
+							base: { ref: "main" },
+						},
+					],
+				});
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("publishing");
+				expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).toHaveBeenCalledWith(
+					expect.objectContaining({ commit_sha: "run-sha" }),
+				);
+			});
+
+			it("should use the associated PR for pull_request triggered runs", async () => {
+				mockContext.payload = {
+					workflow_run: {
+						name: "CI",
+						event: "pull_request",
+						conclusion: "success",
+						head_branch: "changeset-release/main",
+						head_sha: "run-sha",
+						pull_requests: [{ number: 8, head: { ref: "changeset-release/main" }, base: { ref: "main" } }],
+					},
+				};
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("validation");
+				expect(result.reason).toBe("Open PR #8 from changeset-release/main to main");
+			});
+
+			it("should return none when the triggering run did not succeed", async () => {
+				(mockContext.payload.workflow_run as { conclusion: string }).conclusion = "failure";
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("none");
+				expect(result.reason).toBe('Triggering workflow "Release Validation" concluded with failure');
+			});
+		});
+
+		describe("release commits within a push", () => {
+			const releasePR = {
+				number: 42,
+				merged_at: "2024-01-01T00:00:00Z",
+				head: { ref: "changeset-release/main" },
+				base: { ref: "main" },
+			};
+
+			it("should detect a release commit that is not the head commit", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "release-sha", message: "Merge pull request #42 from test-owner/changeset-release/main" },
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockImplementation(
+					({ commit_sha }: { commit_sha: string }) =>
+						Promise.resolve({ data: commit_sha === "release-sha" ? [releasePR] : [] }),
+				);
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("publishing");
+				expect(result.releaseCommitSha).toBe("release-sha");
+				expect(result.reason).toBe("Merged release PR #42 from changeset-release/main (commit release in push)");
+				expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).toHaveBeenNthCalledWith(
+					1,
+					expect.objectContaining({ commit_sha: "abc123" }),
+				);
+			});
+
+			it("should report the head commit when it is the release commit", async () => {
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [releasePR] });
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.releaseCommitSha).toBe("abc123");
+				expect(result.reason).toBe("Merged release PR #42 from changeset-release/main");
+			});
+
+			it("should use the compare API when the payload has no commit list", async () => {
+				mockContext.payload = { before: "before-sha", head_commit: { message: "fix: follow-up" } };
+				mockOctokit.rest.repos.compareCommits.mockResolvedValue({
+					data: {
+						commits: [
+							{ sha: "release-sha", commit: { message: "chore: version packages" } },
+							{ sha: "abc123", commit: { message: "fix: follow-up" } },
+						],
+					},
+				});
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockImplementation(
+					({ commit_sha }: { commit_sha: string }) =>
+						Promise.resolve({ data: commit_sha === "release-sha" ? [releasePR] : [] }),
+				);
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(mockOctokit.rest.repos.compareCommits).toHaveBeenCalledWith(
+					expect.objectContaining({ base: "before-sha", head: "abc123" }),
+				);
+				expect(result.releaseCommitSha).toBe("release-sha");
+			});
+
+			it("should keep API results of other commits when one query fails", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "release-sha", message: "Release" },
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockImplementation(
+					({ commit_sha }: { commit_sha: string }) =>
+						commit_sha === "release-sha"
+							? Promise.resolve({ data: [releasePR] })
+							: Promise.reject(new Error("API Error")),
+				);
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("publishing");
+				expect(result.mergedReleasePRNumber).toBe(42);
+				expect(result.releaseCommitSha).toBe("release-sha");
+				expect(core.warning).toHaveBeenCalledWith("Failed to check for associated PRs of abc123: API Error");
+			});
+
+			it("should not match messages of older commits when the API works", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "lookalike-sha", message: "chore: version packages" },
+						...Array.from({ length: 11 }, (_, index) => ({ id: `sha-${index}`, message: "fix: something" })),
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).toHaveBeenCalledTimes(10);
+				expect(mockOctokit.rest.pulls.list).toHaveBeenCalledWith(
+					expect.objectContaining({ state: "closed", base: "main", sort: "updated", direction: "desc" }),
+				);
+				expect(result.isReleaseCommit).toBe(false);
+				expect(result.releaseCommitSha).toBeUndefined();
+				expect(result.decisionTrace.find((entry) => entry.step === "release-commit")?.detail).toBe(
+					"No merged release PR found via API",
+				);
+			});
+
+			it("should find release PRs merged by older commits through closed PRs", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "release-sha", message: "Merge pull request #42 from owner/changeset-release/main" },
+						...Array.from({ length: 11 }, (_, index) => ({ id: `sha-${index}`, message: "fix: something" })),
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+				mockOctokit.rest.pulls.list.mockResolvedValue({
+					data: [
+						{
+							number: 41,
+							merged_at: "2024-01-01T00:00:00Z",
+							merge_commit_sha: "other-sha",
+							head: { ref: "changeset-release/main" },
+							base: { ref: "main" },
+						},
+						{
+							number: 42,
+							merged_at: "2024-01-01T00:00:00Z",
+							merge_commit_sha: "release-sha",
+							head: { ref: "changeset-release/main" },
+							base: { ref: "main" },
+						},
+					],
+				});
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit).not.toHaveBeenCalledWith(
+					expect.objectContaining({ commit_sha: "release-sha" }),
+				);
+				expect(result.phase).toBe("publishing");
+				expect(result.releaseCommitSha).toBe("release-sha");
+				expect(result.mergedReleasePRNumber).toBe(42);
+			});
+
+			it("should match messages of older commits when listing closed PRs fails", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "release-sha", message: "chore: version packages" },
+						...Array.from({ length: 11 }, (_, index) => ({ id: `sha-${index}`, message: "fix: something" })),
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
+				mockOctokit.rest.pulls.list.mockRejectedValue(new Error("API Error"));
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("publishing");
+				expect(result.releaseCommitSha).toBe("release-sha");
+				expect(result.decisionTrace.find((entry) => entry.step === "release-commit")?.detail).toBe(
+					"API failed (API Error), used commit message fallback (matched version /chore: version packages/)",
+				);
+			});
+
+			it("should fall back to messages of all pushed commits when the API fails", async () => {
+				mockContext.payload = {
+					head_commit: { message: "fix: follow-up" },
+					commits: [
+						{ id: "release-sha", message: "chore: version packages" },
+						{ id: "abc123", message: "fix: follow-up" },
+					],
+				};
+				mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockRejectedValue(new Error("API Error"));
+
+				const result = await detectWorkflowPhase(createOptions());
+
+				expect(result.phase).toBe("publishing");
+				expect(result.releaseCommitSha).toBe("release-sha");
+			});
+		});
+
+		it("should match user-defined version patterns in the message fallback", async () => {
+			mockContext.payload = {
+				head_commit: { message: "release: publish packages [skip ci]" },
+			};
+			mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockRejectedValue(new Error("API Error"));
+
+			const result = await detectWorkflowPhase({
+				...createOptions(),
+				releaseCommitPatterns: { version: [/^release: publish packages/] },
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(result.matchedPattern).toBe("version /^release: publish packages/");
+			expect(result.reason).toBe("Release commit detected on main (matched version /^release: publish packages/)");
+		});
+
 		it("should handle workflow_dispatch event on main branch", async () => {
 			mockContext.eventName = "workflow_dispatch";
 			mockOctokit.rest.repos.listPullRequestsAssociatedWithCommit.mockResolvedValue({ data: [] });
@@ -326,6 +1079,27 @@ describe("detect-workflow-phase", () => {
 			expect(result.isPRMerged).toBe(false);
 		});
 
+		it("should detect a merged release PR by label", () => {
+			mockContext.eventName = "pull_request";
+			mockContext.payload = {
+				pull_request: {
+					number: 10,
+					merged: true,
+					head: { ref: "release/run-123" },
+					base: { ref: "main" },
+					labels: [{ name: "release" }],
+				},
+			};
+
+			const result = detectWorkflowPhaseSync({
+				...createSyncOptions(),
+				releasePRMatcher: { strategies: ["label"], labels: ["release"], authors: [] },
+			});
+
+			expect(result.phase).toBe("close-issues");
+			expect(result.isReleasePRMerged).toBe(true);
+		});
+
 		it("should detect none phase for other branches", () => {
 			mockContext.ref = "refs/heads/feature/test";
 
@@ -345,6 +1119,148 @@ describe("detect-workflow-phase", () => {
 			expect(result.isReleaseCommit).toBe(true);
 		});
 
+		it("should detect pre-release-publishing from commit message in pre mode", () => {
+			mockContext.payload = {
+				head_commit: { message: "chore: version packages" },
+			};
+
+			const result = detectWorkflowPhaseSync({
+				...createSyncOptions(),
+				preState: { mode: "pre", tag: "beta", initialVersions: {}, changesets: [] },
+			});
+
+			expect(result.phase).toBe("pre-release-publishing");
+			expect(result.preTag).toBe("beta");
+		});
+
+		it("should resolve branches from a matching release line", () => {
+			mockContext.ref = "refs/heads/release/2.x";
+
+			const result = detectWorkflowPhaseSync({
+				...createSyncOptions(),
+				releaseLines: [{ target: "release/*", release: "changeset-release/release/*" }],
+			});
+
+			expect(result.phase).toBe("branch-management");
+			expect(result.releaseLine?.releaseBranch).toBe("changeset-release/release/2.x");
+		});
+
+		it("should trace the message-only release commit check", () => {
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.decisionTrace.find((e) => e.step === "release-commit")?.detail).toBe(
+				"Commit message patterns only (no token)",
+			);
+		});
+
+		it("should apply custom phase rules", () => {
+			mockContext.ref = "refs/heads/release/1.x";
+
+			const result = detectWorkflowPhaseSync({
+				...createSyncOptions(),
+				phaseRules: [{ name: "maintenance", phase: "maintenance", when: { event: "push", ref: "release/*" } }],
+			});
+
+			expect(result.phase).toBe("maintenance");
+			expect(result.reason).toBe('Matched rule "maintenance"');
+		});
+
+		it("should report the queued PR for merge_group events", () => {
+			mockContext.eventName = "merge_group";
+			mockContext.ref = "refs/heads/gh-readonly-queue/main/pr-33-beef";
+			mockContext.payload = {
+				merge_group: {
+					head_ref: "refs/heads/gh-readonly-queue/main/pr-33-beef",
+					base_ref: "refs/heads/main",
+				},
+			};
+
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.phase).toBe("none");
+			expect(result.isMergeGroupEvent).toBe(true);
+			expect(result.queuedPRNumbers).toEqual([33]);
+			expect(result.reason).toContain("requires a token");
+		});
+
+		it("should apply a legal requested phase for workflow_dispatch", () => {
+			mockContext.eventName = "workflow_dispatch";
+			mockContext.payload = { inputs: { phase: "branch-management" } };
+
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.phase).toBe("branch-management");
+			expect(result.reason).toBe("Manual override via workflow_dispatch: branch-management on main");
+		});
+
+		it("should reject publishing for workflow_dispatch without a release commit", () => {
+			mockContext.eventName = "workflow_dispatch";
+			mockContext.payload = {};
+
+			expect(() => detectWorkflowPhaseSync({ ...createSyncOptions(), requestedPhase: "publishing" })).toThrow(
+				"is not a release commit",
+			);
+		});
+
+		it("should detect against the triggering run for workflow_run events", () => {
+			mockContext.eventName = "workflow_run";
+			mockContext.payload = {
+				workflow_run: {
+					name: "CI",
+					event: "push",
+					conclusion: "success",
+					head_branch: "main",
+					head_sha: "run-sha",
+					head_commit: { message: "chore: version packages" },
+				},
+			};
+
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.phase).toBe("publishing");
+			expect(result.workflowRun?.headSha).toBe("run-sha");
+		});
+
+		it("should detect a release commit among pushed commits", () => {
+			mockContext.payload = {
+				head_commit: { message: "fix: follow-up" },
+				commits: [
+					{ id: "release-sha", message: "chore: version packages" },
+					{ id: "abc123", message: "fix: follow-up" },
+				],
+			};
+
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.phase).toBe("publishing");
+			expect(result.releaseCommitSha).toBe("release-sha");
+			expect(result.reason).toContain("Release commit detected on main (commit release in push)");
+		});
+
+		it("should match user-defined merge patterns", () => {
+			mockContext.payload = {
+				head_commit: { message: "Release bot: merge release train" },
+			};
+
+			const result = detectWorkflowPhaseSync({
+				...createSyncOptions(),
+				releaseCommitPatterns: { merge: [/^Release bot:/] },
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(result.matchedPattern).toBe("merge /^Release bot:/");
+		});
+
+		it("should report the built-in pattern that matched", () => {
+			mockContext.payload = {
+				head_commit: { message: "chore: version packages" },
+			};
+
+			const result = detectWorkflowPhaseSync(createSyncOptions());
+
+			expect(result.matchedPattern).toBe("version /chore: version packages/");
+		});
+
 		it("should detect release commit from chore: release prefix", () => {
 			mockContext.payload = {
 				head_commit: { message: "chore: release v2.0.0" },
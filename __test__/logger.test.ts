@@ -60,6 +60,11 @@ describe("logger", () => {
 			logger.warn("Be careful");
 			expect(core.warning).toHaveBeenCalledWith(`${STATE.warning} Be careful`);
 		});
+
+		it("should pass annotation properties", () => {
+			logger.warn("Be careful", { file: "a.md", startLine: 2 });
+			expect(core.warning).toHaveBeenCalledWith(`${STATE.warning} Be careful`, { file: "a.md", startLine: 2 });
+		});
 	});
 
 	describe("error", () => {
@@ -67,6 +72,11 @@ describe("logger", () => {
 			logger.error("Something broke");
 			expect(core.error).toHaveBeenCalledWith(`${STATE.issue} Something broke`);
 		});
+
+		it("should pass annotation properties", () => {
+			logger.error("Something broke", { file: "a.md", startLine: 2 });
+			expect(core.error).toHaveBeenCalledWith(`${STATE.issue} Something broke`, { file: "a.md", startLine: 2 });
+		});
 	});
 
 	describe("skip", () => {
@@ -113,6 +123,21 @@ describe("logger", () => {
 		});
 	});
 
+	describe("decisionTrace", () => {
+		it("should log each entry with its inputs in a group", () => {
+			logger.decisionTrace([
+				{ step: "branches", matched: true, inputs: { ref: "refs/heads/main" }, detail: "On target branch" },
+				{ step: "rule release-commit", matched: false, inputs: { releaseCommit: false } },
+			]);
+
+			expect(core.startGroup).toHaveBeenCalledWith("Decision trace");
+			expect(core.info).toHaveBeenCalledWith(`${STATE.good} branches: On target branch`);
+			expect(core.info).toHaveBeenCalledWith(`    {"ref":"refs/heads/main"}`);
+			expect(core.info).toHaveBeenCalledWith(`${STATE.neutral} rule release-commit`);
+			expect(core.endGroup).toHaveBeenCalled();
+		});
+	});
+
 	describe("context", () => {
 		it("should log basic branch context", () => {
 			logger.context({
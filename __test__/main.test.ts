@@ -1,16 +1,41 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { attributeChangesets } from "../src/utils/changeset-attribution.js";
+import { checkChangesetCoverage } from "../src/utils/changeset-coverage.js";
+import { diffChangesets, getDiffRange, listChangedFilesWithGit } from "../src/utils/changeset-diff.js";
 import type { PhaseDetectionResult } from "../src/utils/detect-workflow-phase.js";
-import { detectWorkflowPhase, detectWorkflowPhaseSync } from "../src/utils/detect-workflow-phase.js";
-import type { ParseChangesetsResult } from "../src/utils/parse-changesets.js";
-import { parseChangesets } from "../src/utils/parse-changesets.js";
+import {
+	detectWorkflowPhase,
+	detectWorkflowPhaseSync,
+	resolveEventContext,
+} from "../src/utils/detect-workflow-phase.js";
+import { applyMajorGate, parseMajorGate } from "../src/utils/major-gate.js";
+import type { ChangesetConfig, ParseChangesetsResult } from "../src/utils/parse-changesets.js";
+import {
+	hasChangesets,
+	isChangesetFile,
+	parseChangesetConfig,
+	parseChangesetFiles,
+	parseChangesets,
+	readChangesetConfig,
+} from "../src/utils/parse-changesets.js";
+import { buildPreviewComment, upsertPreviewComment } from "../src/utils/pr-comment.js";
+import { fetchChangesetFiles, fetchWorkspacePackages } from "../src/utils/remote-changesets.js";
+import { readWorkspacePackages } from "../src/utils/workspace-packages.js";
 import { cleanupTestEnvironment, setupTestEnvironment } from "./utils/github-mocks.js";
 
 vi.mock("@actions/core");
 vi.mock("@actions/github");
+vi.mock("../src/utils/changeset-attribution.js");
+vi.mock("../src/utils/changeset-coverage.js");
+vi.mock("../src/utils/changeset-diff.js");
 vi.mock("../src/utils/detect-workflow-phase.js");
+vi.mock("../src/utils/major-gate.js");
 vi.mock("../src/utils/parse-changesets.js");
+vi.mock("../src/utils/pr-comment.js");
+vi.mock("../src/utils/remote-changesets.js");
+vi.mock("../src/utils/workspace-packages.js");
 vi.mock("../src/utils/logger.js", () => ({
 	PHASE: {
 		branch: "\u{1F33F}",
@@ -39,12 +64,15 @@ vi.mock("../src/utils/logger.js", () => ({
 		endStep: vi.fn(),
 		phaseComplete: vi.fn(),
 		context: vi.fn(),
+		decisionTrace: vi.fn(),
 	},
 }));
 vi.mock("../src/utils/summary-writer.js", () => ({
 	summaryWriter: {
 		write: vi.fn().mockResolvedValue(undefined),
 		keyValueTable: vi.fn().mockReturnValue("table"),
+		table: vi.fn().mockReturnValue("table"),
+		details: vi.fn().mockReturnValue("details"),
 		build: vi.fn().mockReturnValue("summary"),
 	},
 }));
@@ -60,6 +88,9 @@ function makePhaseResult(overrides: Partial<PhaseDetectionResult> = {}): PhaseDe
 		isPRMerged: false,
 		isReleasePRMerged: false,
 		commitMessage: "feat: add feature",
+		isPreRelease: false,
+		isMergeGroupEvent: false,
+		decisionTrace: [],
 		...overrides,
 	};
 }
@@ -71,7 +102,25 @@ function makeChangesetResult(overrides: Partial<ParseChangesetsResult> = {}): Pa
 		changesets: [],
 		releaseType: null,
 		affectedPackages: [],
+		declaredBumps: new Map(),
 		packageBumps: new Map(),
+		packageSources: new Map(),
+		packagePaths: new Map(),
+		diagnostics: [],
+		preState: null,
+		unconsumedChangesetCount: 0,
+		...overrides,
+	};
+}
+
+function makeChangesetConfig(overrides: Partial<ChangesetConfig> = {}): ChangesetConfig {
+	return {
+		changelog: "@changesets/cli/changelog",
+		ignore: [],
+		fixed: [],
+		linked: [],
+		updateInternalDependencies: "patch",
+		privatePackages: { version: true, tag: false },
 		...overrides,
 	};
 }
@@ -106,7 +155,12 @@ function setupMocks(
 	vi.mocked(github.getOctokit).mockReturnValue(mockOctokit);
 	vi.mocked(detectWorkflowPhase).mockResolvedValue(phaseResult);
 	vi.mocked(detectWorkflowPhaseSync).mockReturnValue(phaseResult);
+	vi.mocked(resolveEventContext).mockImplementation((context) => ({ context }));
 	vi.mocked(parseChangesets).mockReturnValue(changesetResult);
+	vi.mocked(hasChangesets).mockReturnValue(changesetResult.hasChangesets);
+	vi.mocked(readChangesetConfig).mockReturnValue(makeChangesetConfig());
+	vi.mocked(readWorkspacePackages).mockReturnValue(new Map());
+	vi.mocked(isChangesetFile).mockImplementation((fileName) => fileName.endsWith(".md"));
 }
 
 async function runMain(): Promise<void> {
@@ -115,8 +169,15 @@ async function runMain(): Promise<void> {
 	// Re-apply mocks after resetModules
 	vi.mock("@actions/core");
 	vi.mock("@actions/github");
+	vi.mock("../src/utils/changeset-attribution.js");
+	vi.mock("../src/utils/changeset-coverage.js");
+	vi.mock("../src/utils/changeset-diff.js");
 	vi.mock("../src/utils/detect-workflow-phase.js");
+	vi.mock("../src/utils/major-gate.js");
 	vi.mock("../src/utils/parse-changesets.js");
+	vi.mock("../src/utils/pr-comment.js");
+	vi.mock("../src/utils/remote-changesets.js");
+	vi.mock("../src/utils/workspace-packages.js");
 	vi.mock("../src/utils/logger.js", () => ({
 		PHASE: {
 			branch: "\u{1F33F}",
@@ -145,12 +206,15 @@ async function runMain(): Promise<void> {
 			endStep: vi.fn(),
 			phaseComplete: vi.fn(),
 			context: vi.fn(),
+			decisionTrace: vi.fn(),
 		},
 	}));
 	vi.mock("../src/utils/summary-writer.js", () => ({
 		summaryWriter: {
 			write: vi.fn().mockResolvedValue(undefined),
 			keyValueTable: vi.fn().mockReturnValue("table"),
+			table: vi.fn().mockReturnValue("table"),
+			details: vi.fn().mockReturnValue("details"),
 			build: vi.fn().mockReturnValue("summary"),
 		},
 	}));
@@ -217,6 +281,611 @@ describe("main", () => {
 		});
 	});
 
+	describe("requested phase", () => {
+		it("should pass requested-phase input to phase detection", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "requested-phase") return "publishing";
+				return "";
+			});
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(expect.objectContaining({ requestedPhase: "publishing" }));
+		});
+	});
+
+	describe("release commit patterns", () => {
+		it("should compile pattern inputs and pass them to phase detection", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "release-version-patterns") return "^release: publish packages";
+				return "";
+			});
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(
+				expect.objectContaining({
+					releaseCommitPatterns: { merge: [], version: [/^release: publish packages/] },
+				}),
+			);
+		});
+
+		it("should fail on an invalid pattern", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "release-merge-patterns") return "([";
+				return "";
+			});
+
+			await expect(runMain()).rejects.toThrow(/Invalid pattern/);
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setFailed)).toHaveBeenCalledWith(
+				expect.stringContaining('Invalid pattern "([" in release-merge-patterns'),
+			);
+		});
+	});
+
+	describe("release PR strategy", () => {
+		it("should parse strategy inputs and pass them to phase detection", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "release-pr-strategy") return "label,author";
+				if (name === "release-pr-labels") return "release";
+				if (name === "release-pr-authors") return "github-actions[bot]";
+				return "";
+			});
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(
+				expect.objectContaining({
+					releasePRMatcher: { strategies: ["label", "author"], labels: ["release"], authors: ["github-actions[bot]"] },
+				}),
+			);
+		});
+
+		it("should fail when the label strategy has no labels", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "release-pr-strategy") return "label";
+				return "";
+			});
+
+			await expect(runMain()).rejects.toThrow(/requires at least one label/);
+		});
+	});
+
+	describe("result output", () => {
+		it("should output the full results as versioned JSON", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 1,
+					affectedPackages: ["pkg-a"],
+					packageBumps: new Map([["pkg-a", "minor"]]),
+				}),
+			);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const call = vi.mocked(coreModule.setOutput).mock.calls.find(([name]) => name === "result");
+			const result = JSON.parse(String(call?.[1]));
+			expect(result.schemaVersion).toBe(1);
+			expect(result.phase.phase).toBe("branch-management");
+			expect(result.phase.commitMessage).toBe("feat: add feature");
+			expect(result.changesets.packageBumps).toEqual({ "pkg-a": "minor" });
+		});
+	});
+
+	describe("changeset diff", () => {
+		it("should output added and removed changesets when enabled", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "diff-changesets" ? "true" : "";
+			});
+			vi.mocked(diffChangesets).mockResolvedValue({
+				base: "base-sha",
+				head: "head-sha",
+				source: "api",
+				added: ["brave-cats-run"],
+				modified: [],
+				removed: ["old-news"],
+			});
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { diffChangesets: diff } = await import("../src/utils/changeset-diff.js");
+			expect(vi.mocked(diff)).toHaveBeenCalledWith(expect.objectContaining({ octokit: expect.anything() }));
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("added_changesets", '["brave-cats-run"]');
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("removed_changesets", '["old-news"]');
+		});
+
+		it("should not diff by default", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { diffChangesets: diff } = await import("../src/utils/changeset-diff.js");
+			expect(vi.mocked(diff)).not.toHaveBeenCalled();
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("added_changesets", "[]");
+		});
+	});
+
+	describe("release preview comment", () => {
+		function setupPullRequest(): void {
+			Object.defineProperty(github, "context", {
+				value: {
+					ref: "refs/pull/7/merge",
+					eventName: "pull_request",
+					sha: "merge-sha",
+					payload: { pull_request: { number: 7, base: { sha: "base-sha" }, head: { sha: "head-sha" } } },
+					repo: { owner: "test-owner", repo: "test-repo" },
+				},
+				writable: true,
+				configurable: true,
+			});
+		}
+
+		const added = {
+			id: "brave-cats-run",
+			summary: "Add a flag",
+			releases: [{ name: "pkg-a", type: "minor" as const }],
+		};
+		const existing = { id: "old-news", summary: "Fix", releases: [{ name: "pkg-a", type: "patch" as const }] };
+
+		it("should upsert the comment with the changesets the pull request adds", async () => {
+			setupMocks(makePhaseResult({ phase: "validation" }), makeChangesetResult({ changesets: [added, existing] }));
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "pr-comment" ? "true" : "";
+			});
+			setupPullRequest();
+			vi.mocked(diffChangesets).mockResolvedValue({
+				base: "base-sha",
+				head: "head-sha",
+				source: "api",
+				added: ["brave-cats-run"],
+				modified: [],
+				removed: [],
+			});
+			vi.mocked(buildPreviewComment).mockReturnValue("comment body");
+			vi.mocked(upsertPreviewComment).mockResolvedValue("created");
+
+			await runMain();
+
+			const { buildPreviewComment: build, upsertPreviewComment: upsert } = await import("../src/utils/pr-comment.js");
+			expect(vi.mocked(build)).toHaveBeenCalledWith(expect.objectContaining({ changesets: [added] }));
+			expect(vi.mocked(upsert)).toHaveBeenCalledWith(expect.objectContaining({ pullNumber: 7, body: "comment body" }));
+		});
+
+		it("should leave the comment alone when the diff failed", async () => {
+			setupMocks(makePhaseResult({ phase: "validation" }), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "pr-comment" ? "true" : "";
+			});
+			setupPullRequest();
+			vi.mocked(diffChangesets).mockResolvedValue(null);
+
+			await runMain();
+
+			const { upsertPreviewComment: upsert } = await import("../src/utils/pr-comment.js");
+			expect(vi.mocked(upsert)).not.toHaveBeenCalled();
+		});
+
+		it("should skip events other than pull requests", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "pr-comment" ? "true" : "";
+			});
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { upsertPreviewComment: upsert } = await import("../src/utils/pr-comment.js");
+			expect(vi.mocked(upsert)).not.toHaveBeenCalled();
+			expect(vi.mocked(coreModule.info)).toHaveBeenCalledWith(
+				"Release preview comment needs a pull request event and a token, skipping",
+			);
+		});
+
+		it("should not comment by default", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			setupPullRequest();
+
+			await runMain();
+
+			const { upsertPreviewComment: upsert } = await import("../src/utils/pr-comment.js");
+			expect(vi.mocked(upsert)).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("changeset source", () => {
+		it("should read changesets and the workspace through the API", async () => {
+			const changesetResult = makeChangesetResult({ hasChangesets: true, changesetCount: 1 });
+			const changesetFiles = new Map([
+				["brave-cats-run.md", '---\n"pkg-a": minor\n---\n\nFeature'],
+				["config.json", '{"ignore":["pkg-docs"]}'],
+			]);
+			const workspacePackages = new Map([
+				["pkg-a", { name: "pkg-a", path: "packages/a", version: "1.0.0", private: false, dependencies: [] }],
+			]);
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "changeset-source" ? "api" : "";
+			});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(changesetFiles);
+			vi.mocked(fetchWorkspacePackages).mockResolvedValue(workspacePackages);
+			vi.mocked(parseChangesetFiles).mockReturnValue(changesetResult);
+			vi.mocked(parseChangesetConfig).mockReturnValue(makeChangesetConfig({ ignore: ["pkg-docs"] }));
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { parseChangesets: parse, parseChangesetFiles: parseFiles } = await import(
+				"../src/utils/parse-changesets.js"
+			);
+			const { readWorkspacePackages: readWorkspace } = await import("../src/utils/workspace-packages.js");
+			const { fetchChangesetFiles: fetchFiles, fetchWorkspacePackages: fetchWorkspace } = await import(
+				"../src/utils/remote-changesets.js"
+			);
+			expect(vi.mocked(fetchFiles)).toHaveBeenCalledWith(expect.objectContaining({ ref: "abc123" }));
+			expect(vi.mocked(fetchWorkspace)).toHaveBeenCalledWith(expect.objectContaining({ ref: "abc123" }));
+			expect(vi.mocked(parseFiles)).toHaveBeenCalledWith(changesetFiles, workspacePackages);
+			expect(vi.mocked(parse)).not.toHaveBeenCalled();
+			expect(vi.mocked(readWorkspace)).not.toHaveBeenCalled();
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("changeset_count", "1");
+		});
+
+		it("should read at the triggering run's head for workflow_run events", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "changeset-source" ? "api" : "";
+			});
+			vi.mocked(resolveEventContext).mockImplementation((context) => ({
+				context: { ...context, sha: "run-head-sha" } as typeof context,
+			}));
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map([["config.json", "{}"]]));
+			vi.mocked(parseChangesetFiles).mockReturnValue(makeChangesetResult());
+			vi.mocked(parseChangesetConfig).mockReturnValue(makeChangesetConfig());
+
+			await runMain();
+
+			const { fetchChangesetFiles: fetchFiles, fetchWorkspacePackages: fetchWorkspace } = await import(
+				"../src/utils/remote-changesets.js"
+			);
+			expect(vi.mocked(fetchFiles)).toHaveBeenCalledWith(expect.objectContaining({ ref: "run-head-sha" }));
+			// Without changesets there is nothing to release, so the workspace is not read
+			expect(vi.mocked(fetchWorkspace)).not.toHaveBeenCalled();
+		});
+
+		it("should read changesets from disk by default", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+
+			await runMain();
+
+			const { fetchChangesetFiles: fetchFiles } = await import("../src/utils/remote-changesets.js");
+			const { parseChangesets: parse } = await import("../src/utils/parse-changesets.js");
+			expect(vi.mocked(fetchFiles)).not.toHaveBeenCalled();
+			expect(vi.mocked(parse)).toHaveBeenCalled();
+		});
+
+		it("should require a token for the API source", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult(), { token: "" });
+			vi.mocked(core.getInput).mockImplementation((name: string) => (name === "changeset-source" ? "api" : ""));
+
+			await expect(runMain()).rejects.toThrow('changeset-source "api" requires a token');
+		});
+
+		it("should reject unknown sources", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => (name === "changeset-source" ? "s3" : ""));
+
+			await expect(runMain()).rejects.toThrow('Invalid changeset-source "s3" (expected "local" or "api")');
+		});
+	});
+
+	describe("next versions", () => {
+		it("should output and summarize the projected versions", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 1,
+					packageBumps: new Map([["@scope/core", "minor"]]),
+				}),
+			);
+			vi.mocked(readWorkspacePackages).mockReturnValue(
+				new Map([
+					[
+						"@scope/core",
+						{ name: "@scope/core", path: "packages/core", version: "1.0.0", private: false, dependencies: [] },
+					],
+				]),
+			);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith(
+				"next_versions",
+				JSON.stringify({ "@scope/core": "1.1.0" }),
+			);
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(sw.table)).toHaveBeenCalledWith(
+				["Package", "Bump", "Current → Next"],
+				[["`@scope/core`", "minor", "1.0.0 → 1.1.0"]],
+			);
+		});
+
+		it("should output an empty object without changesets", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("next_versions", "{}");
+		});
+	});
+
+	describe("release notes preview", () => {
+		const changesetResult = makeChangesetResult({
+			hasChangesets: true,
+			changesetCount: 1,
+			changesets: [
+				{ id: "brave-cats-run", summary: "## Features\n\n* Add a flag", releases: [{ name: "pkg-a", type: "minor" }] },
+			],
+			packageBumps: new Map([["pkg-a", "minor"]]),
+		});
+
+		it("should render the release notes during validation", async () => {
+			setupMocks(makePhaseResult({ phase: "validation" }), changesetResult);
+			vi.mocked(readWorkspacePackages).mockReturnValue(
+				new Map([["pkg-a", { name: "pkg-a", path: "packages/a", version: "1.0.0", private: false, dependencies: [] }]]),
+			);
+
+			await runMain();
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(sw.details)).toHaveBeenCalledWith(
+				"<code>pkg-a</code> 1.1.0",
+				"## 1.1.0\n\n### Minor Changes\n\n#### Features\n\n* Add a flag",
+			);
+			expect(vi.mocked(sw.build)).toHaveBeenCalledWith(
+				expect.arrayContaining([
+					expect.objectContaining({
+						heading: "Release Notes Preview",
+						content: expect.stringContaining("`@changesets/cli/changelog`"),
+					}),
+				]),
+			);
+		});
+
+		it("should skip the preview in other phases", async () => {
+			setupMocks(makePhaseResult({ phase: "publishing" }), changesetResult);
+
+			await runMain();
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(sw.build)).not.toHaveBeenCalledWith(
+				expect.arrayContaining([expect.objectContaining({ heading: "Release Notes Preview" })]),
+			);
+		});
+
+		it("should skip the preview when changelogs are disabled", async () => {
+			setupMocks(makePhaseResult({ phase: "validation" }), changesetResult);
+			vi.mocked(readChangesetConfig).mockReturnValue(makeChangesetConfig({ changelog: null }));
+
+			await runMain();
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(sw.build)).not.toHaveBeenCalledWith(
+				expect.arrayContaining([expect.objectContaining({ heading: "Release Notes Preview" })]),
+			);
+		});
+	});
+
+	describe("matrix output", () => {
+		const packageBumps = new Map<string, "major" | "minor" | "patch">([
+			["@scope/core", "minor"],
+			["@scope/docs", "patch"],
+		]);
+
+		it("should output a strategy matrix with workspace paths and versions", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({ hasChangesets: true, changesetCount: 1, declaredBumps: packageBumps, packageBumps }),
+			);
+			vi.mocked(readWorkspacePackages).mockReturnValue(
+				new Map([
+					[
+						"@scope/core",
+						{ name: "@scope/core", path: "packages/core", version: "1.0.0", private: false, dependencies: [] },
+					],
+					["@scope/docs", { name: "@scope/docs", path: "docs", version: "0.0.0", private: true, dependencies: [] }],
+				]),
+			);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith(
+				"matrix",
+				JSON.stringify({
+					include: [
+						{ name: "@scope/core", bump: "minor", source: "direct", path: "packages/core", version: "1.0.0" },
+						{ name: "@scope/docs", bump: "patch", source: "direct", path: "docs", version: "0.0.0" },
+					],
+				}),
+			);
+		});
+
+		it("should apply the exclusion inputs", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({ hasChangesets: true, changesetCount: 1, declaredBumps: packageBumps, packageBumps }),
+			);
+			vi.mocked(readWorkspacePackages).mockReturnValue(
+				new Map([
+					["@scope/docs", { name: "@scope/docs", path: "docs", version: "0.0.0", private: true, dependencies: [] }],
+				]),
+			);
+			vi.mocked(core.getInput).mockImplementation((name: string) => (name === "matrix-exclude-private" ? "true" : ""));
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const call = vi.mocked(coreModule.setOutput).mock.calls.find(([name]) => name === "matrix");
+			expect(JSON.parse(String(call?.[1])).include.map((entry: { name: string }) => entry.name)).toEqual([
+				"@scope/core",
+			]);
+		});
+
+		it("should pass the workspace packages to changeset parsing", async () => {
+			const packages = new Map([
+				[
+					"@scope/core",
+					{ name: "@scope/core", path: "packages/core", version: "1.0.0", private: false, dependencies: [] },
+				],
+			]);
+			setupMocks(makePhaseResult(), makeChangesetResult({ hasChangesets: true, changesetCount: 1, packageBumps }));
+			vi.mocked(readWorkspacePackages).mockReturnValue(packages);
+
+			await runMain();
+
+			const { parseChangesets: parse } = await import("../src/utils/parse-changesets.js");
+			expect(vi.mocked(parse)).toHaveBeenCalledWith({ packages });
+		});
+
+		it("should not read the workspace without changesets", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("matrix", JSON.stringify({ include: [] }));
+			expect(vi.mocked(readWorkspacePackages)).not.toHaveBeenCalled();
+		});
+	});
+
+	describe("decision trace", () => {
+		it("should output, log and summarize the decision trace", async () => {
+			const decisionTrace = [
+				{ step: "branches", matched: true, inputs: { ref: "refs/heads/main" }, detail: "On target branch" },
+				{ step: "rule target-branch-push", matched: true, inputs: { branch: "target" } },
+			];
+			setupMocks(makePhaseResult({ decisionTrace }), makeChangesetResult());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { logger: mockLogger } = await import("../src/utils/logger.js");
+			const { summaryWriter: mockSummary } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("decision_trace", JSON.stringify(decisionTrace));
+			expect(vi.mocked(mockLogger.decisionTrace)).toHaveBeenCalledWith(decisionTrace);
+			expect(vi.mocked(mockSummary.details).mock.calls[0][0]).toBe("Decision trace (2 steps)");
+		});
+	});
+
+	describe("phase rules", () => {
+		it("should pass the built-in rules and changeset presence to phase detection", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult({ hasChangesets: true, changesetCount: 1 }));
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "rules-file") return ".github/missing-rules.jsonc";
+				return "";
+			});
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			const { DEFAULT_PHASE_RULES } = await import("../src/utils/phase-rules.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(
+				expect.objectContaining({ phaseRules: [...DEFAULT_PHASE_RULES], hasChangesets: true }),
+			);
+		});
+
+		it("should output custom phases", async () => {
+			setupMocks(
+				makePhaseResult({ phase: "docs-preview", reason: 'Matched rule "docs"', matchedRule: "docs" }),
+				makeChangesetResult(),
+			);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("phase", "docs-preview");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("should_continue", "true");
+		});
+	});
+
+	describe("release lines", () => {
+		it("should parse release-lines input and pass it to phase detection", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "release-lines") return "release/*: changeset-release/release/*";
+				return "";
+			});
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(
+				expect.objectContaining({
+					releaseLines: [{ target: "release/*", release: "changeset-release/release/*" }],
+				}),
+			);
+		});
+
+		it("should set release_line output from the matched line", async () => {
+			const phaseResult = makePhaseResult({
+				releaseLine: {
+					name: "release/1.x",
+					targetBranch: "release/1.x",
+					releaseBranch: "changeset-release/release/1.x",
+				},
+			});
+			setupMocks(phaseResult, makeChangesetResult());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("release_line", "release/1.x");
+		});
+
+		it("should fail on an invalid release-lines input", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "release-lines") return "not-a-mapping";
+				return "";
+			});
+
+			await expect(runMain()).rejects.toThrow(/Invalid release line/);
+
+			const coreModule = await import("@actions/core");
+			expect(vi.mocked(coreModule.setFailed)).toHaveBeenCalledWith(expect.stringContaining("Invalid release line"));
+		});
+	});
+
 	describe("outputs", () => {
 		it("should set all outputs for branch-management phase", async () => {
 			const phaseResult = makePhaseResult({ phase: "branch-management" });
@@ -281,6 +950,41 @@ describe("main", () => {
 			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("changeset_count", "3");
 			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("release_type", "minor");
 		});
+
+		it("should set pre mode outputs", async () => {
+			const phaseResult = makePhaseResult({
+				phase: "pre-release-publishing",
+				isReleaseCommit: true,
+				isPreRelease: true,
+				preTag: "next",
+			});
+			const changesetResult = makeChangesetResult({
+				hasChangesets: true,
+				changesetCount: 3,
+				preState: { mode: "pre", tag: "next", initialVersions: {}, changesets: ["a", "b"] },
+				unconsumedChangesetCount: 1,
+			});
+			setupMocks(phaseResult, changesetResult);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const setOutput = vi.mocked(coreModule.setOutput);
+			expect(setOutput).toHaveBeenCalledWith("phase", "pre-release-publishing");
+			expect(setOutput).toHaveBeenCalledWith("pre_mode", "true");
+			expect(setOutput).toHaveBeenCalledWith("pre_tag", "next");
+			expect(setOutput).toHaveBeenCalledWith("unconsumed_changeset_count", "1");
+		});
+
+		it("should pass pre mode state to phase detection", async () => {
+			const preState = { mode: "pre" as const, tag: "beta", initialVersions: {}, changesets: [] };
+			setupMocks(makePhaseResult(), makeChangesetResult({ preState }));
+
+			await runMain();
+
+			const { detectWorkflowPhase: dwp } = await import("../src/utils/detect-workflow-phase.js");
+			expect(vi.mocked(dwp)).toHaveBeenCalledWith(expect.objectContaining({ preState }));
+		});
 	});
 
 	describe("changeset logging", () => {
@@ -326,6 +1030,227 @@ describe("main", () => {
 			const calls = vi.mocked(coreModule.info).mock.calls.map((c) => c[0]);
 			expect(calls.some((c) => String(c).includes("Release type:"))).toBe(false);
 		});
+
+		it("should report changeset parse diagnostics by severity", async () => {
+			const phaseResult = makePhaseResult();
+			const changesetResult = makeChangesetResult({
+				hasChangesets: true,
+				changesetCount: 1,
+				diagnostics: [
+					{ id: "bad-file", line: 3, severity: "error", message: 'Invalid bump type "huge"' },
+					{ id: "empty", severity: "warning", message: "Changeset does not list any packages" },
+				],
+			});
+			setupMocks(phaseResult, changesetResult);
+
+			await runMain();
+
+			const { logger: log } = await import("../src/utils/logger.js");
+			expect(vi.mocked(log.error)).toHaveBeenCalledWith('Invalid bump type "huge"', {
+				title: "Changeset",
+				file: ".changeset/bad-file.md",
+				startLine: 3,
+			});
+			expect(vi.mocked(log.warn)).toHaveBeenCalledWith("Changeset does not list any packages", {
+				title: "Changeset",
+				file: ".changeset/empty.md",
+				startLine: undefined,
+			});
+		});
+	});
+
+	describe("lint-changesets mode", () => {
+		const lintInputs = (name: string) => (name === "mode" ? "lint-changesets" : "");
+
+		it("should annotate problems and fail when there are errors", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 2,
+					diagnostics: [
+						{ id: "typo", line: 2, severity: "error", message: 'Unknown package "pkg-x" (not in the workspace)' },
+						{ id: "quiet", line: 3, severity: "warning", message: "Changeset summary is empty" },
+					],
+				}),
+			);
+			vi.mocked(core.getInput).mockImplementation(lintInputs);
+
+			await expect(runMain()).rejects.toThrow("Changeset lint found 1 error(s)");
+
+			const coreModule = await import("@actions/core");
+			const { logger: log } = await import("../src/utils/logger.js");
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(log.error)).toHaveBeenCalledWith('Unknown package "pkg-x" (not in the workspace)', {
+				title: "Changeset",
+				file: ".changeset/typo.md",
+				startLine: 2,
+			});
+			expect(vi.mocked(sw.write)).toHaveBeenCalled();
+			expect(vi.mocked(coreModule.setFailed)).toHaveBeenCalledWith(
+				"Workflow control failed: Changeset lint found 1 error(s)",
+			);
+			expect(vi.mocked(detectWorkflowPhase)).not.toHaveBeenCalled();
+		});
+
+		it("should pass with only warnings", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 1,
+					diagnostics: [{ id: "quiet", line: 3, severity: "warning", message: "Changeset summary is empty" }],
+				}),
+			);
+			vi.mocked(core.getInput).mockImplementation(lintInputs);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { logger: log } = await import("../src/utils/logger.js");
+			expect(vi.mocked(coreModule.setFailed)).not.toHaveBeenCalled();
+			expect(vi.mocked(log.success)).toHaveBeenCalledWith("Changesets are valid (1 warning(s))");
+		});
+
+		it("should reject unknown modes", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => (name === "mode" ? "verify" : ""));
+
+			await expect(runMain()).rejects.toThrow('Unknown mode "verify"');
+		});
+	});
+
+	describe("require-changeset mode", () => {
+		const files = [
+			{ filename: "packages/a/src/index.ts", status: "modified" },
+			{ filename: ".changeset/brave-cats-run.md", status: "added" },
+		];
+
+		function setupPullRequest(options: { labels?: string[]; token?: string } = {}): void {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "mode") return "require-changeset";
+				if (name === "token") return options.token ?? "";
+				return "";
+			});
+			Object.defineProperty(github, "context", {
+				value: {
+					ref: "refs/pull/7/merge",
+					eventName: "pull_request",
+					sha: "merge-sha",
+					payload: {
+						pull_request: {
+							number: 7,
+							base: { sha: "base-sha" },
+							head: { sha: "head-sha" },
+							labels: (options.labels ?? []).map((name) => ({ name })),
+						},
+					},
+					repo: { owner: "test-owner", repo: "test-repo" },
+				},
+				writable: true,
+				configurable: true,
+			});
+			vi.mocked(getDiffRange).mockReturnValue({ base: "base-sha", head: "head-sha" });
+			vi.mocked(listChangedFilesWithGit).mockResolvedValue(files);
+		}
+
+		it("should fail when a changed package has no changeset", async () => {
+			setupPullRequest();
+			vi.mocked(checkChangesetCoverage).mockReturnValue({
+				packages: [
+					{ name: "pkg-a", files: ["packages/a/src/index.ts"], changesets: [] },
+					{ name: "pkg-b", files: ["packages/b/src/index.ts"], changesets: ["brave-cats-run"] },
+				],
+				missing: ["pkg-a"],
+				ignoredFiles: [],
+			});
+
+			await expect(runMain()).rejects.toThrow("1 package(s) changed without a changeset: pkg-a");
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			const { listChangedFilesWithGit: listFiles } = await import("../src/utils/changeset-diff.js");
+			expect(vi.mocked(listFiles)).toHaveBeenCalledWith({ base: "base-sha", head: "head-sha" });
+			expect(vi.mocked(sw.table)).toHaveBeenCalledWith(
+				["Package", "Changed Files", "Changesets"],
+				[
+					["`pkg-a`", "1", "🔴 missing"],
+					["`pkg-b`", "1", "`brave-cats-run`"],
+				],
+			);
+			expect(vi.mocked(detectWorkflowPhase)).not.toHaveBeenCalled();
+		});
+
+		it("should pass when every changed package has a changeset", async () => {
+			setupPullRequest();
+			vi.mocked(checkChangesetCoverage).mockReturnValue({
+				packages: [{ name: "pkg-a", files: ["packages/a/src/index.ts"], changesets: ["brave-cats-run"] }],
+				missing: [],
+				ignoredFiles: [],
+			});
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { logger: log } = await import("../src/utils/logger.js");
+			expect(vi.mocked(coreModule.setFailed)).not.toHaveBeenCalled();
+			expect(vi.mocked(log.success)).toHaveBeenCalledWith("Every changed package has a changeset");
+		});
+
+		it("should list files with the pulls API when a token is given", async () => {
+			setupPullRequest({ token: "test-token" });
+			const paginate = vi.fn().mockResolvedValue(files);
+			vi.mocked(github.getOctokit).mockReturnValue({
+				paginate,
+				rest: { pulls: { listFiles: vi.fn() } },
+			} as unknown as ReturnType<typeof github.getOctokit>);
+			vi.mocked(checkChangesetCoverage).mockReturnValue({ packages: [], missing: [], ignoredFiles: [] });
+
+			await runMain();
+
+			const { checkChangesetCoverage: check } = await import("../src/utils/changeset-coverage.js");
+			expect(paginate).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ pull_number: 7 }));
+			expect(vi.mocked(check)).toHaveBeenCalledWith(expect.objectContaining({ files }));
+		});
+
+		it("should pass ignore globs to the check", async () => {
+			setupPullRequest();
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "mode") return "require-changeset";
+				return name === "changeset-ignore" ? "**/*.md\n docs/**, " : "";
+			});
+			vi.mocked(checkChangesetCoverage).mockReturnValue({ packages: [], missing: [], ignoredFiles: [] });
+
+			await runMain();
+
+			const { checkChangesetCoverage: check } = await import("../src/utils/changeset-coverage.js");
+			expect(vi.mocked(check)).toHaveBeenCalledWith(expect.objectContaining({ ignore: ["**/*.md", "docs/**"] }));
+		});
+
+		it("should pass when the pull request has the no-changeset label", async () => {
+			setupPullRequest({ labels: ["no-changeset"] });
+
+			await runMain();
+
+			const { logger: log } = await import("../src/utils/logger.js");
+			const { checkChangesetCoverage: check } = await import("../src/utils/changeset-coverage.js");
+			expect(vi.mocked(check)).not.toHaveBeenCalled();
+			expect(vi.mocked(log.success)).toHaveBeenCalledWith(
+				'Pull request has the "no-changeset" label, no changeset required',
+			);
+		});
+
+		it("should skip events other than pull requests", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => (name === "mode" ? "require-changeset" : ""));
+
+			await runMain();
+
+			const { logger: log } = await import("../src/utils/logger.js");
+			const { checkChangesetCoverage: check } = await import("../src/utils/changeset-coverage.js");
+			expect(vi.mocked(check)).not.toHaveBeenCalled();
+			expect(vi.mocked(log.skip)).toHaveBeenCalledWith("Not a pull request (push event), skipping changeset check");
+		});
 	});
 
 	describe("phase terminal logging", () => {
@@ -363,6 +1288,177 @@ describe("main", () => {
 			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
 			expect(vi.mocked(sw.write)).toHaveBeenCalled();
 		});
+
+		it("should list bumps changed by the changesets config", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 1,
+					declaredBumps: new Map([
+						["pkg-a", "minor"],
+						["docs", "patch"],
+					]),
+					packageBumps: new Map([
+						["pkg-a", "minor"],
+						["pkg-b", "minor"],
+					]),
+				}),
+			);
+
+			await runMain();
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			const entries = vi.mocked(sw.keyValueTable).mock.calls.flatMap(([rows]) => rows);
+			expect(entries).toContainEqual({
+				key: "Config Adjustments",
+				value: "`docs` patch → not released, `pkg-b` none → minor",
+			});
+		});
+
+		it("should list packages released as dependents", async () => {
+			setupMocks(
+				makePhaseResult(),
+				makeChangesetResult({
+					hasChangesets: true,
+					changesetCount: 1,
+					declaredBumps: new Map([["core", "minor"]]),
+					packageBumps: new Map([
+						["core", "minor"],
+						["cli", "patch"],
+					]),
+					packageSources: new Map([
+						["core", "direct"],
+						["cli", "dependent"],
+					]),
+				}),
+			);
+
+			await runMain();
+
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			const entries = vi.mocked(sw.keyValueTable).mock.calls.flatMap(([rows]) => rows);
+			expect(entries).toContainEqual({ key: "Dependent Releases", value: "`cli` (patch)" });
+			expect(entries.some((entry) => entry.key === "Config Adjustments")).toBe(false);
+		});
+	});
+
+	describe("changeset attribution", () => {
+		const changeset = {
+			id: "brave-cats-run",
+			summary: "Add a flag",
+			releases: [{ name: "pkg-a", type: "minor" as const }],
+		};
+		const attributed = { ...changeset, commit: "abc1234def", pullRequest: 42, author: "octocat" };
+
+		it("should attribute changesets and expose them in the result and summary", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult({ hasChangesets: true, changesets: [changeset] }));
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "changeset-attribution" ? "true" : "";
+			});
+			vi.mocked(attributeChangesets).mockResolvedValue([attributed]);
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { attributeChangesets: attribute } = await import("../src/utils/changeset-attribution.js");
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(attribute)).toHaveBeenCalledWith(
+				[changeset],
+				expect.objectContaining({ octokit: expect.anything() }),
+			);
+
+			const resultCall = vi.mocked(coreModule.setOutput).mock.calls.find(([name]) => name === "result");
+			expect(JSON.parse(resultCall?.[1] as string).changesets.changesets).toEqual([attributed]);
+			expect(vi.mocked(sw.table)).toHaveBeenCalledWith(
+				["Changeset", "Packages", "Commit", "Pull Request", "Author"],
+				[["`brave-cats-run`", "`pkg-a` minor", "`abc1234`", "#42", "@octocat"]],
+			);
+			expect(vi.mocked(sw.build)).toHaveBeenCalledWith(
+				expect.arrayContaining([expect.objectContaining({ heading: "Changeset Attribution" })]),
+			);
+		});
+
+		it("should not attribute changesets by default", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult({ hasChangesets: true, changesets: [changeset] }));
+
+			await runMain();
+
+			const { attributeChangesets: attribute } = await import("../src/utils/changeset-attribution.js");
+			const { summaryWriter: sw } = await import("../src/utils/summary-writer.js");
+			expect(vi.mocked(attribute)).not.toHaveBeenCalled();
+			expect(vi.mocked(sw.build)).not.toHaveBeenCalledWith(
+				expect.arrayContaining([expect.objectContaining({ heading: "Changeset Attribution" })]),
+			);
+		});
+
+		it("should skip attribution with the API source", async () => {
+			setupMocks(makePhaseResult(), makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				if (name === "changeset-source") return "api";
+				return name === "changeset-attribution" ? "true" : "";
+			});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map());
+			vi.mocked(parseChangesetFiles).mockReturnValue(makeChangesetResult());
+			vi.mocked(parseChangesetConfig).mockReturnValue(makeChangesetConfig());
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { attributeChangesets: attribute } = await import("../src/utils/changeset-attribution.js");
+			expect(vi.mocked(attribute)).not.toHaveBeenCalled();
+			expect(vi.mocked(coreModule.info)).toHaveBeenCalledWith(
+				'Changeset attribution needs a checkout, skipping with changeset-source "api"',
+			);
+		});
+	});
+
+	describe("major approval gate", () => {
+		const gate = { label: "approved-major", teams: [], packages: [] };
+
+		it("should report the blocked phase and not continue", async () => {
+			const phaseResult = makePhaseResult({ phase: "publishing", isReleaseCommit: true, mergedReleasePRNumber: 12 });
+			setupMocks(phaseResult, makeChangesetResult());
+			vi.mocked(core.getInput).mockImplementation((name: string) => {
+				if (name === "token") return "test-token";
+				return name === "major-approval-label" ? "approved-major" : "";
+			});
+			vi.mocked(parseMajorGate).mockReturnValue(gate);
+			vi.mocked(applyMajorGate).mockResolvedValue({
+				...phaseResult,
+				phase: "blocked",
+				reason: 'Major release of pkg-a needs approval (label "approved-major" on release PR #12)',
+			});
+
+			await runMain();
+
+			const coreModule = await import("@actions/core");
+			const { parseMajorGate: parse, applyMajorGate: apply } = await import("../src/utils/major-gate.js");
+			const { logger: log } = await import("../src/utils/logger.js");
+			expect(vi.mocked(parse)).toHaveBeenCalledWith({ label: "approved-major", teams: "", packages: "" });
+			expect(vi.mocked(apply)).toHaveBeenCalledWith(
+				phaseResult,
+				expect.objectContaining({ gate, octokit: expect.anything() }),
+			);
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("phase", "blocked");
+			expect(vi.mocked(coreModule.setOutput)).toHaveBeenCalledWith("should_continue", "false");
+			expect(vi.mocked(log.warn)).toHaveBeenCalledWith(
+				'Major release of pkg-a needs approval (label "approved-major" on release PR #12)',
+				{ title: "Major release approval" },
+			);
+		});
+
+		it("should not gate without a policy", async () => {
+			setupMocks(makePhaseResult({ phase: "publishing" }), makeChangesetResult());
+			vi.mocked(parseMajorGate).mockReturnValue(null);
+
+			await runMain();
+
+			const { applyMajorGate: apply } = await import("../src/utils/major-gate.js");
+			expect(vi.mocked(apply)).not.toHaveBeenCalled();
+		});
 	});
 
 	describe("error handling", () => {
@@ -0,0 +1,371 @@
+import * as core from "@actions/core";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { PhaseDetectionResult } from "../src/utils/detect-workflow-phase.js";
+import type { MajorGate } from "../src/utils/major-gate.js";
+import { applyMajorGate, findGatedPackages, parseMajorGate } from "../src/utils/major-gate.js";
+import type { BumpType } from "../src/utils/parse-changesets.js";
+import { fetchChangesetFiles } from "../src/utils/remote-changesets.js";
+
+vi.mock("@actions/core");
+vi.mock("../src/utils/remote-changesets.js");
+
+type Context = typeof githubContext;
+type Octokit = ReturnType<typeof getOctokit>;
+
+const context = {
+	eventName: "push",
+	sha: "release-sha",
+	payload: {},
+	repo: { owner: "test-owner", repo: "test-repo" },
+} as unknown as Context;
+
+const majorBumps = new Map<string, BumpType>([
+	["pkg-a", "major"],
+	["pkg-b", "minor"],
+]);
+
+const majorFiles = new Map([["big.md", '---\n"pkg-a": major\n"pkg-b": minor\n---\n\nBreaking']]);
+
+function makeResult(overrides: Partial<PhaseDetectionResult> = {}): PhaseDetectionResult {
+	return {
+		phase: "publishing",
+		reason: "Release commit on main",
+		isReleaseBranch: false,
+		isMainBranch: true,
+		isReleaseCommit: true,
+		mergedReleasePRNumber: 12,
+		isPullRequestEvent: false,
+		isPRMerged: false,
+		isReleasePRMerged: false,
+		commitMessage: "chore: release",
+		isPreRelease: false,
+		isMergeGroupEvent: false,
+		decisionTrace: [],
+		...overrides,
+	};
+}
+
+function makeOctokit(options: {
+	labels?: string[];
+	reviews?: Array<{ user: { login: string }; state: string }>;
+	members?: string[];
+}) {
+	const rest = {
+		pulls: {
+			get: vi.fn().mockResolvedValue({
+				data: { number: 12, base: { sha: "base-sha" }, labels: (options.labels ?? []).map((name) => ({ name })) },
+			}),
+			listReviews: vi.fn(),
+		},
+		git: {
+			getCommit: vi.fn().mockResolvedValue({ data: { parents: [{ sha: "parent-sha" }] } }),
+		},
+		teams: {
+			getMembershipForUserInOrg: vi
+				.fn()
+				.mockImplementation(({ username }: { username: string }) =>
+					(options.members ?? []).includes(username)
+						? Promise.resolve({ data: { state: "active" } })
+						: Promise.reject(Object.assign(new Error("Not Found"), { status: 404 })),
+				),
+		},
+	};
+	const octokit = { paginate: vi.fn().mockResolvedValue(options.reviews ?? []), rest } as unknown as Octokit;
+	return { octokit, rest };
+}
+
+describe("major-gate", () => {
+	const labelGate: MajorGate = { label: "approved-major", teams: [], packages: [] };
+	const teamGate: MajorGate = { label: "", teams: ["release-owners"], packages: [] };
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		vi.mocked(fetchChangesetFiles).mockResolvedValue(majorFiles);
+	});
+
+	describe("parseMajorGate", () => {
+		it("should parse the label, teams and packages", () => {
+			expect(
+				parseMajorGate({ label: " approved-major ", teams: "org/owners, maintainers", packages: "@scope/*" }),
+			).toEqual({ label: "approved-major", teams: ["org/owners", "maintainers"], packages: ["@scope/*"] });
+		});
+
+		it("should return null without a label or teams", () => {
+			expect(parseMajorGate({ label: "", teams: "", packages: "" })).toBeNull();
+		});
+
+		it("should reject packages without a label or teams", () => {
+			expect(() => parseMajorGate({ label: "", teams: "", packages: "pkg-a" })).toThrow(
+				"major-approval-packages needs major-approval-label or major-approval-teams",
+			);
+		});
+	});
+
+	describe("findGatedPackages", () => {
+		it("should list every major bump by default", () => {
+			expect(findGatedPackages(majorBumps, labelGate)).toEqual(["pkg-a"]);
+		});
+
+		it("should only list packages matching the gate", () => {
+			expect(findGatedPackages(majorBumps, { ...labelGate, packages: ["pkg-b*"] })).toEqual([]);
+			expect(findGatedPackages(majorBumps, { ...labelGate, packages: ["pkg-*"] })).toEqual(["pkg-a"]);
+		});
+	});
+
+	describe("applyMajorGate", () => {
+		it("should block an unapproved major release", async () => {
+			const { octokit } = makeOctokit({});
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("blocked");
+			expect(result.reason).toBe('Major release of pkg-a needs approval (label "approved-major" on release PR #12)');
+			expect(result.decisionTrace).toEqual([
+				{
+					step: "major-gate",
+					matched: true,
+					inputs: { packages: ["pkg-a"], label: "approved-major", teams: [], releasePR: 12 },
+					detail: "No approval on release PR #12",
+				},
+			]);
+		});
+
+		it("should pass with the approval label", async () => {
+			const { octokit } = makeOctokit({ labels: ["approved-major"] });
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(result.decisionTrace[0]).toMatchObject({
+				matched: false,
+				detail: 'Label "approved-major" on release PR #12',
+			});
+		});
+
+		it("should pass with an approving review from a team member", async () => {
+			const { octokit, rest } = makeOctokit({
+				reviews: [
+					{ user: { login: "outsider" }, state: "APPROVED" },
+					{ user: { login: "owner" }, state: "APPROVED" },
+					{ user: { login: "owner" }, state: "COMMENTED" },
+				],
+				members: ["owner"],
+			});
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: teamGate,
+				context,
+				octokit,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(rest.teams.getMembershipForUserInOrg).toHaveBeenCalledWith({
+				org: "test-owner",
+				team_slug: "release-owners",
+				username: "owner",
+			});
+			expect(result.decisionTrace[0].detail).toBe("Approved by @owner (@test-owner/release-owners) on release PR #12");
+		});
+
+		it("should ignore approvals that were later withdrawn", async () => {
+			const { octokit } = makeOctokit({
+				reviews: [
+					{ user: { login: "owner" }, state: "APPROVED" },
+					{ user: { login: "owner" }, state: "CHANGES_REQUESTED" },
+				],
+				members: ["owner"],
+			});
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: teamGate,
+				context,
+				octokit,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("blocked");
+			expect(result.reason).toContain("an approving review from @release-owners");
+		});
+
+		it("should re-read consumed changesets from the release PR base", async () => {
+			const { octokit } = makeOctokit({});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map([["big.md", '---\n"pkg-c": major\n---\n\nBreaking']]));
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: new Map(),
+				packages: new Map(),
+			});
+
+			expect(vi.mocked(fetchChangesetFiles)).toHaveBeenCalledWith({ octokit, context, ref: "base-sha" });
+			expect(result.reason).toContain("Major release of pkg-c");
+		});
+
+		it("should re-read consumed changesets from the parent of the release commit without a release PR", async () => {
+			const { octokit, rest } = makeOctokit({});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map([["big.md", '---\n"pkg-c": major\n---\n\nBreaking']]));
+
+			const result = await applyMajorGate(
+				makeResult({ mergedReleasePRNumber: undefined, releaseCommitSha: "release-sha" }),
+				{ gate: labelGate, context, octokit, packageBumps: new Map(), packages: new Map() },
+			);
+
+			expect(rest.pulls.get).not.toHaveBeenCalled();
+			expect(rest.git.getCommit).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				commit_sha: "release-sha",
+			});
+			expect(vi.mocked(fetchChangesetFiles)).toHaveBeenCalledWith({ octokit, context, ref: "parent-sha" });
+			expect(result.phase).toBe("blocked");
+			expect(result.reason).toBe('Major release of pkg-c needs approval (label "approved-major")');
+		});
+
+		it("should block when the consumed changesets cannot be re-read", async () => {
+			const withoutToken = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				packageBumps: new Map(),
+				packages: new Map(),
+			});
+
+			expect(withoutToken.phase).toBe("blocked");
+			expect(withoutToken.reason).toBe(
+				"Could not determine the bumps of the release to check for major releases (No token to read the bumps with)",
+			);
+			expect(withoutToken.decisionTrace[0]).toMatchObject({ matched: true, inputs: { packages: null } });
+
+			const { octokit } = makeOctokit({});
+			const withoutReleasePR = await applyMajorGate(makeResult({ mergedReleasePRNumber: undefined }), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: new Map(),
+				packages: new Map(),
+			});
+
+			expect(withoutReleasePR.phase).toBe("blocked");
+			expect(withoutReleasePR.reason).toContain("No release PR or release commit to read the bumps from");
+			expect(vi.mocked(fetchChangesetFiles)).not.toHaveBeenCalled();
+		});
+
+		it("should read the bumps the release consumed when later commits add changesets", async () => {
+			const { octokit } = makeOctokit({});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map([["small.md", '---\n"pkg-b": minor\n---\n\nFeature']]));
+			// The head commit of the push added a major changeset after the release commit
+			const result = await applyMajorGate(makeResult({ releaseCommitSha: "older-release-sha" }), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: new Map([["pkg-d", "major"]]),
+				packages: new Map(),
+			});
+
+			expect(vi.mocked(fetchChangesetFiles)).toHaveBeenCalledWith({ octokit, context, ref: "base-sha" });
+			expect(result.phase).toBe("publishing");
+			expect(result.decisionTrace[0]).toMatchObject({ matched: false, detail: "No gated package gets a major bump" });
+
+			const withoutToken = await applyMajorGate(makeResult({ releaseCommitSha: "older-release-sha" }), {
+				gate: labelGate,
+				context,
+				packageBumps: new Map([["pkg-d", "major"]]),
+				packages: new Map(),
+			});
+
+			expect(withoutToken.phase).toBe("blocked");
+			expect(withoutToken.reason).toContain("No token to read the bumps with");
+		});
+
+		it("should block when the API fails before the bumps are known", async () => {
+			const { octokit, rest } = makeOctokit({});
+			rest.pulls.get.mockRejectedValue(new Error("Bad credentials"));
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: new Map(),
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("blocked");
+			expect(result.reason).toBe(
+				"Could not determine the bumps of the release to check for major releases (API failed (Bad credentials))",
+			);
+		});
+
+		it("should let minor releases through", async () => {
+			const { octokit } = makeOctokit({});
+			vi.mocked(fetchChangesetFiles).mockResolvedValue(new Map([["small.md", '---\n"pkg-b": minor\n---\n\nFeature']]));
+
+			const result = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: new Map([["pkg-b", "minor"]]),
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("publishing");
+			expect(result.decisionTrace[0]).toMatchObject({ matched: false, detail: "No gated package gets a major bump" });
+		});
+
+		it("should block when approval cannot be verified", async () => {
+			const withoutToken = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(withoutToken.phase).toBe("blocked");
+			expect(withoutToken.reason).toBe(
+				'Major release of pkg-a needs approval (label "approved-major" on release PR #12)',
+			);
+
+			const { octokit, rest } = makeOctokit({});
+			rest.pulls.get.mockRejectedValue(new Error("Bad credentials"));
+
+			const failed = await applyMajorGate(makeResult(), {
+				gate: labelGate,
+				context,
+				octokit,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(failed.phase).toBe("blocked");
+			expect(vi.mocked(core.warning)).toHaveBeenCalledWith("Failed to check major release approval: Bad credentials");
+		});
+
+		it("should leave other phases alone", async () => {
+			const result = await applyMajorGate(makeResult({ phase: "validation" }), {
+				gate: labelGate,
+				context,
+				packageBumps: majorBumps,
+				packages: new Map(),
+			});
+
+			expect(result.phase).toBe("validation");
+			expect(result.decisionTrace).toEqual([]);
+		});
+	});
+});
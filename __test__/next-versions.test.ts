@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { computeNextVersions } from "../src/utils/next-versions.js";
+import type { BumpType, PreState } from "../src/utils/parse-changesets.js";
+
+describe("next-versions", () => {
+	const packages = new Map(
+		[
+			["pkg-a", "1.2.3"],
+			["pkg-b", "1.1.0-next.2"],
+			["pkg-c", "not-a-version"],
+		].map(([name, version]) => [name, { name, path: `packages/${name}`, version, private: false, dependencies: [] }]),
+	);
+
+	const preState = (mode: PreState["mode"]): PreState => ({
+		mode,
+		tag: "next",
+		initialVersions: { "pkg-a": "1.2.3", "pkg-b": "1.0.0" },
+		changesets: [],
+	});
+
+	it("should bump the current version", () => {
+		const bumps = new Map<string, BumpType>([
+			["pkg-a", "minor"],
+			["pkg-b", "patch"],
+		]);
+
+		expect(computeNextVersions(bumps, packages, null)).toEqual([
+			{ name: "pkg-a", bump: "minor", current: "1.2.3", next: "1.3.0" },
+			{ name: "pkg-b", bump: "patch", current: "1.1.0-next.2", next: "1.1.0" },
+		]);
+	});
+
+	it("should continue the pre-release counter in pre mode", () => {
+		const bumps = new Map<string, BumpType>([
+			["pkg-a", "major"],
+			["pkg-b", "minor"],
+		]);
+
+		expect(computeNextVersions(bumps, packages, preState("pre"))).toEqual([
+			{ name: "pkg-a", bump: "major", current: "1.2.3", next: "2.0.0-next.0" },
+			{ name: "pkg-b", bump: "minor", current: "1.1.0-next.2", next: "1.1.0-next.3" },
+		]);
+	});
+
+	it("should bump from the initial version after pre mode exit", () => {
+		const bumps = new Map<string, BumpType>([["pkg-b", "minor"]]);
+
+		expect(computeNextVersions(bumps, packages, preState("exit"))).toEqual([
+			{ name: "pkg-b", bump: "minor", current: "1.1.0-next.2", next: "1.1.0" },
+		]);
+	});
+
+	it("should skip packages without a valid version", () => {
+		const bumps = new Map<string, BumpType>([
+			["pkg-c", "patch"],
+			["missing", "patch"],
+		]);
+
+		expect(computeNextVersions(bumps, packages, null)).toEqual([]);
+	});
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildPackageMatrix } from "../src/utils/package-matrix.js";
+import type { BumpType } from "../src/utils/parse-changesets.js";
+import type { WorkspacePackage } from "../src/utils/workspace-packages.js";
+
+describe("package-matrix", () => {
+	const packageBumps = new Map<string, BumpType>([
+		["@scope/web", "minor"],
+		["@scope/core", "patch"],
+		["@scope/example-app", "patch"],
+	]);
+
+	const packages = new Map<string, WorkspacePackage>([
+		["@scope/core", { name: "@scope/core", path: "packages/core", version: "1.2.3", private: false, dependencies: [] }],
+		["@scope/web", { name: "@scope/web", path: "apps/web", version: "0.4.0", private: true, dependencies: [] }],
+		[
+			"@scope/example-app",
+			{ name: "@scope/example-app", path: "examples/app", version: "0.0.0", private: false, dependencies: [] },
+		],
+	]);
+
+	it("should include one entry per affected package sorted by name", () => {
+		expect(buildPackageMatrix(packageBumps, packages)).toEqual({
+			include: [
+				{ name: "@scope/core", bump: "patch", source: "direct", path: "packages/core", version: "1.2.3" },
+				{ name: "@scope/example-app", bump: "patch", source: "direct", path: "examples/app", version: "0.0.0" },
+				{ name: "@scope/web", bump: "minor", source: "direct", path: "apps/web", version: "0.4.0" },
+			],
+		});
+	});
+
+	it("should exclude private packages", () => {
+		const matrix = buildPackageMatrix(packageBumps, packages, { excludePrivate: true });
+
+		expect(matrix.include.map((entry) => entry.name)).toEqual(["@scope/core", "@scope/example-app"]);
+	});
+
+	it("should mark packages released as dependents", () => {
+		const matrix = buildPackageMatrix(packageBumps, packages, { sources: new Map([["@scope/web", "dependent"]]) });
+
+		expect(matrix.include.map((entry) => entry.source)).toEqual(["direct", "direct", "dependent"]);
+	});
+
+	it("should leave path and version empty for packages outside the workspace", () => {
+		const matrix = buildPackageMatrix(new Map([["unknown", "major"]]), packages);
+
+		expect(matrix.include).toEqual([{ name: "unknown", bump: "major", source: "direct", path: "", version: "" }]);
+	});
+});
@@ -1,20 +1,36 @@
 import * as fs from "node:fs";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
-import type { BumpType } from "../src/utils/parse-changesets.js";
+import type { BumpType, ChangesetConfig } from "../src/utils/parse-changesets.js";
 import {
+	applyChangesetConfig,
 	compareBumpTypes,
 	countChangesets,
 	getHighestBumpType,
 	hasChangesets,
+	isChangesetFile,
+	parseChangesetConfig,
 	parseChangesetFile,
+	parseChangesetFiles,
 	parseChangesets,
+	parsePreState,
+	readChangesetConfig,
+	readPreState,
 } from "../src/utils/parse-changesets.js";
 
 // Mock node:fs
 vi.mock("node:fs");
 
 describe("parse-changesets", () => {
+	const defaultConfig: ChangesetConfig = {
+		changelog: "@changesets/cli/changelog",
+		ignore: [],
+		fixed: [],
+		linked: [],
+		updateInternalDependencies: "patch",
+		privatePackages: { version: true, tag: false },
+	};
+
 	beforeEach(() => {
 		vi.clearAllMocks();
 	});
@@ -31,7 +47,7 @@ describe("parse-changesets", () => {
 
 Added a new feature`;
 
-			const result = parseChangesetFile(content, "abc123");
+			const { changeset: result } = parseChangesetFile(content, "abc123");
 
 			expect(result).toEqual({
 				id: "abc123",
@@ -49,7 +65,7 @@ Added a new feature`;
 
 Breaking change to package-a, new feature in package-b, fix in package-c`;
 
-			const result = parseChangesetFile(content, "multi-change");
+			const { changeset: result } = parseChangesetFile(content, "multi-change");
 
 			expect(result).toEqual({
 				id: "multi-change",
@@ -69,7 +85,7 @@ Breaking change to package-a, new feature in package-b, fix in package-c`;
 
 Fix bug`;
 
-			const result = parseChangesetFile(content, "single-quotes");
+			const { changeset: result } = parseChangesetFile(content, "single-quotes");
 
 			expect(result).toEqual({
 				id: "single-quotes",
@@ -85,7 +101,7 @@ my-package: minor
 
 Summary`;
 
-			const result = parseChangesetFile(content, "no-quotes");
+			const { changeset: result } = parseChangesetFile(content, "no-quotes");
 
 			expect(result).toEqual({
 				id: "no-quotes",
@@ -94,22 +110,170 @@ Summary`;
 			});
 		});
 
-		it("should return null for invalid format (no frontmatter)", () => {
+		it("should report a diagnostic when there is no frontmatter", () => {
 			const content = `Just some text without frontmatter`;
 
 			const result = parseChangesetFile(content, "invalid");
 
-			expect(result).toBeNull();
+			expect(result.changeset).toBeNull();
+			expect(result.diagnostics).toEqual([
+				{ id: "invalid", line: 1, severity: "error", message: expect.stringContaining("Missing frontmatter") },
+			]);
 		});
 
-		it("should return null for malformed frontmatter", () => {
+		it("should report a diagnostic for unterminated frontmatter", () => {
 			const content = `---
 not valid yaml format here
 Summary`;
 
 			const result = parseChangesetFile(content, "malformed");
 
-			expect(result).toBeNull();
+			expect(result.changeset).toBeNull();
+			expect(result.diagnostics[0].message).toContain("Unterminated frontmatter");
+		});
+
+		it("should handle CRLF line endings and a BOM", () => {
+			const content = '\uFEFF---\r\n"my-package": minor\r\n---\r\n\r\nSummary\r\n';
+
+			const result = parseChangesetFile(content, "crlf");
+
+			expect(result.diagnostics).toEqual([]);
+			expect(result.changeset).toEqual({
+				id: "crlf",
+				summary: "Summary",
+				releases: [{ name: "my-package", type: "minor" }],
+			});
+		});
+
+		it("should ignore comments", () => {
+			const content = `---
+# Release both packages
+"pkg-a": minor # new API
+@scope/pkg-b: patch # unquoted scoped name
+'pkg-c': "major"
+---
+
+Summary`;
+
+			const result = parseChangesetFile(content, "comments");
+
+			expect(result.diagnostics).toEqual([]);
+			expect(result.changeset?.releases).toEqual([
+				{ name: "pkg-a", type: "minor" },
+				{ name: "@scope/pkg-b", type: "patch" },
+				{ name: "pkg-c", type: "major" },
+			]);
+		});
+
+		it("should accept none bump types", () => {
+			const content = `---
+"pkg-a": none
+---
+
+Docs only`;
+
+			const result = parseChangesetFile(content, "none");
+
+			expect(result.diagnostics).toEqual([]);
+			expect(result.changeset?.releases).toEqual([{ name: "pkg-a", type: "none" }]);
+		});
+
+		it("should handle empty frontmatter", () => {
+			const result = parseChangesetFile("---\n---\n\nNothing to release", "empty");
+
+			expect(result.changeset?.releases).toEqual([]);
+			expect(result.diagnostics).toEqual([
+				{ id: "empty", line: 1, severity: "warning", message: "Changeset does not list any packages" },
+			]);
+		});
+
+		it("should report packages that are not in the workspace", () => {
+			const content = `---
+"@savvy-web/workflow-control-action": minor
+"@savvy-web/workflw-control": patch
+---
+
+Summary`;
+			const packages = new Map([
+				[
+					"@savvy-web/workflow-control-action",
+					{ name: "@savvy-web/workflow-control-action", path: ".", version: "1.0.0", private: false, dependencies: [] },
+				],
+			]);
+
+			const result = parseChangesetFile(content, "typo", packages);
+
+			expect(result.changeset?.releases).toEqual([{ name: "@savvy-web/workflow-control-action", type: "minor" }]);
+			expect(result.diagnostics).toEqual([
+				{
+					id: "typo",
+					line: 3,
+					severity: "error",
+					message: 'Unknown package "@savvy-web/workflw-control" (not in the workspace)',
+				},
+			]);
+		});
+
+		it("should report invalid lines with line numbers and keep valid entries", () => {
+			const content = `---
+"pkg-a": minor
+"pkg-b": huge
+not a mapping
+"pkg-a": patch
+"pkg-c
+---
+
+Summary`;
+
+			const result = parseChangesetFile(content, "bad-lines");
+
+			expect(result.changeset?.releases).toEqual([{ name: "pkg-a", type: "minor" }]);
+			expect(result.diagnostics).toEqual([
+				{ id: "bad-lines", line: 3, severity: "error", message: expect.stringContaining('Invalid bump type "huge"') },
+				{ id: "bad-lines", line: 4, severity: "error", message: expect.stringContaining("Expected") },
+				{ id: "bad-lines", line: 5, severity: "error", message: 'Duplicate entry for "pkg-a"' },
+				{ id: "bad-lines", line: 6, severity: "error", message: "Unterminated quoted package name" },
+			]);
+		});
+
+		it("should report YAML outside the supported subset", () => {
+			const content = `---
+"pkg-a": minor
+  "pkg-b": patch
+{ "pkg-c": patch }
+- "pkg-d"
+&anchor "pkg-e": patch
+"pkg-f": |
+"pkg-g": 'pa''tch'
+"pkg-\\"h\\"": "patch"
+---
+
+Summary`;
+
+			const result = parseChangesetFile(content, "unsupported");
+
+			expect(result.changeset?.releases).toEqual([
+				{ name: "pkg-a", type: "minor" },
+				{ name: 'pkg-"h"', type: "patch" },
+			]);
+			expect(result.diagnostics).toEqual([
+				{
+					id: "unsupported",
+					line: 3,
+					severity: "error",
+					message: 'Unsupported indented line ""pkg-b": patch" (expected one top-level "package": bump entry per line)',
+				},
+				{ id: "unsupported", line: 4, severity: "error", message: expect.stringContaining("Unsupported YAML") },
+				{ id: "unsupported", line: 5, severity: "error", message: expect.stringContaining("Unsupported YAML") },
+				{ id: "unsupported", line: 6, severity: "error", message: expect.stringContaining("Unsupported YAML") },
+				{ id: "unsupported", line: 7, severity: "error", message: expect.stringContaining('Invalid bump type "|"') },
+				{
+					id: "unsupported",
+					line: 8,
+					severity: "error",
+					message: expect.stringContaining(`Invalid bump type "pa'tch"`),
+				},
+			]);
 		});
 
 		it("should handle empty summary", () => {
@@ -118,13 +282,16 @@ Summary`;
 ---
 `;
 
-			const result = parseChangesetFile(content, "empty-summary");
+			const { changeset: result, diagnostics } = parseChangesetFile(content, "empty-summary");
 
 			expect(result).toEqual({
 				id: "empty-summary",
 				summary: "",
 				releases: [{ name: "my-package", type: "patch" }],
 			});
+			expect(diagnostics).toEqual([
+				{ id: "empty-summary", line: 3, severity: "warning", message: "Changeset summary is empty" },
+			]);
 		});
 
 		it("should handle multiline summary", () => {
@@ -139,7 +306,7 @@ It has multiple paragraphs.
 - And a list
 - With items`;
 
-			const result = parseChangesetFile(content, "multiline");
+			const { changeset: result } = parseChangesetFile(content, "multiline");
 
 			expect(result?.summary).toContain("This is a multiline summary.");
 			expect(result?.summary).toContain("- And a list");
@@ -154,7 +321,7 @@ It has multiple paragraphs.
 
 Summary`;
 
-			const result = parseChangesetFile(content, "with-blanks");
+			const { changeset: result } = parseChangesetFile(content, "with-blanks");
 
 			expect(result).toEqual({
 				id: "with-blanks",
@@ -177,6 +344,11 @@ Summary`;
 			expect(compareBumpTypes("patch", "minor")).toBeLessThan(0);
 		});
 
+		it("should rank none below patch", () => {
+			expect(compareBumpTypes("patch", "none")).toBeGreaterThan(0);
+			expect(compareBumpTypes("none", "none")).toBe(0);
+		});
+
 		it("should return zero when equal", () => {
 			expect(compareBumpTypes("major", "major")).toBe(0);
 			expect(compareBumpTypes("minor", "minor")).toBe(0);
@@ -189,6 +361,10 @@ Summary`;
 			expect(getHighestBumpType(new Map())).toBeNull();
 		});
 
+		it("should return null when every bump is none", () => {
+			expect(getHighestBumpType(new Map<string, BumpType>([["pkg-a", "none"]]))).toBeNull();
+		});
+
 		it("should return the single bump type", () => {
 			const bumps = new Map<string, BumpType>([["pkg-a", "minor"]]);
 			expect(getHighestBumpType(bumps)).toBe("minor");
@@ -344,6 +520,407 @@ Valid`)
 			expect(result.changesetCount).toBe(2); // Both files counted
 			expect(result.changesets).toHaveLength(1); // Only valid parsed
 			expect(result.affectedPackages).toEqual(["pkg"]);
+			expect(result.diagnostics).toEqual([expect.objectContaining({ id: "invalid", severity: "error" })]);
+		});
+
+		it("should not release packages that are only listed as none", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readdirSync).mockReturnValue(["a.md"] as unknown as ReturnType<typeof fs.readdirSync>);
+			vi.mocked(fs.readFileSync).mockReturnValue(`---
+"pkg-a": none
+"pkg-b": patch
+---
+
+Fix`);
+
+			const result = parseChangesets();
+
+			expect(result.changesets[0].releases).toHaveLength(2);
+			expect(result.affectedPackages).toEqual(["pkg-b"]);
+			expect(result.releaseType).toBe("patch");
+		});
+
+		it("should apply config.json to the declared bumps", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readdirSync).mockReturnValue(["config.json", "a.md"] as unknown as ReturnType<
+				typeof fs.readdirSync
+			>);
+			vi.mocked(fs.readFileSync).mockImplementation((file) =>
+				String(file).endsWith("config.json")
+					? JSON.stringify({ fixed: [["pkg-a", "pkg-b"]] })
+					: `---
+"pkg-a": minor
+---
+
+Feature`,
+			);
+
+			const packages = new Map(
+				["pkg-a", "pkg-b"].map((name) => [
+					name,
+					{ name, path: name, version: "1.0.0", private: false, dependencies: [] },
+				]),
+			);
+
+			const result = parseChangesets({ packages });
+
+			expect(Object.fromEntries(result.declaredBumps)).toEqual({ "pkg-a": "minor" });
+			expect(Object.fromEntries(result.packagePaths)).toEqual({ "pkg-a": "pkg-a" });
+			expect(Object.fromEntries(result.packageSources)).toEqual({ "pkg-a": "direct", "pkg-b": "direct" });
+			expect(Object.fromEntries(result.packageBumps)).toEqual({ "pkg-a": "minor", "pkg-b": "minor" });
+			expect(result.affectedPackages).toEqual(["pkg-a", "pkg-b"]);
+		});
+
+		it("should not report pre mode when pre.json is absent", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readdirSync).mockReturnValue(["abc.md"] as unknown as ReturnType<typeof fs.readdirSync>);
+			vi.mocked(fs.readFileSync).mockReturnValue(`---
+"pkg": patch
+---
+
+Fix`);
+
+			const result = parseChangesets();
+
+			expect(result.preState).toBeNull();
+			expect(result.unconsumedChangesetCount).toBe(1);
+		});
+
+		it("should read pre mode state and exclude consumed changesets", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readdirSync).mockReturnValue(["pre.json", "old.md", "new.md"] as unknown as ReturnType<
+				typeof fs.readdirSync
+			>);
+			vi.mocked(fs.readFileSync).mockImplementation((filePath) => {
+				if (String(filePath).endsWith("pre.json")) {
+					return JSON.stringify({
+						mode: "pre",
+						tag: "next",
+						initialVersions: { pkg: "1.0.0" },
+						changesets: ["old"],
+					});
+				}
+				return `---
+"pkg": minor
+---
+
+Feature`;
+			});
+
+			const result = parseChangesets();
+
+			expect(result.preState).toEqual({
+				mode: "pre",
+				tag: "next",
+				initialVersions: { pkg: "1.0.0" },
+				changesets: ["old"],
+			});
+			expect(result.changesetCount).toBe(2);
+			expect(result.unconsumedChangesetCount).toBe(1);
+		});
+	});
+
+	describe("parseChangesetFiles", () => {
+		it("should produce the same result as reading the directory", () => {
+			const contents: Record<string, string> = {
+				"abc.md": '---\n"pkg-a": minor\n---\n\nFeature',
+				"def.md": '---\n"pkg-b": patch\n---\n\nFix',
+				"pre.json": JSON.stringify({ mode: "pre", tag: "next", initialVersions: {}, changesets: ["abc"] }),
+				"config.json": JSON.stringify({ fixed: [["pkg-a", "pkg-b"]] }),
+			};
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readdirSync).mockReturnValue(["README.md", ...Object.keys(contents)] as unknown as ReturnType<
+				typeof fs.readdirSync
+			>);
+			vi.mocked(fs.readFileSync).mockImplementation(
+				(filePath) => contents[String(filePath).split(/[\\/]/).pop() ?? ""],
+			);
+
+			const result = parseChangesetFiles(new Map(Object.entries(contents)));
+
+			expect(result).toEqual(parseChangesets());
+			expect(result.packageBumps).toEqual(
+				new Map([
+					["pkg-a", "minor"],
+					["pkg-b", "minor"],
+				]),
+			);
+			expect(result.preState?.tag).toBe("next");
+			expect(result.unconsumedChangesetCount).toBe(1);
+		});
+
+		it("should return an empty result without changeset files", () => {
+			const result = parseChangesetFiles(new Map([["config.json", "{}"]]));
+
+			expect(result.hasChangesets).toBe(false);
+			expect(result.changesets).toEqual([]);
+		});
+	});
+
+	describe("isChangesetFile", () => {
+		it("should accept markdown files other than README.md", () => {
+			expect(isChangesetFile("brave-cats-run.md")).toBe(true);
+			expect(isChangesetFile("README.md")).toBe(false);
+			expect(isChangesetFile("config.json")).toBe(false);
+		});
+	});
+
+	describe("parsePreState", () => {
+		it("should parse valid content and reject invalid content", () => {
+			expect(parsePreState('{"mode":"pre","tag":"beta"}')).toEqual({
+				mode: "pre",
+				tag: "beta",
+				initialVersions: {},
+				changesets: [],
+			});
+			expect(parsePreState("not json")).toBeNull();
+		});
+	});
+
+	describe("parseChangesetConfig", () => {
+		it("should parse valid content and fall back to defaults", () => {
+			expect(parseChangesetConfig('{"ignore":["pkg-docs"]}')).toEqual({ ...defaultConfig, ignore: ["pkg-docs"] });
+			expect(parseChangesetConfig("not json")).toEqual(defaultConfig);
+		});
+	});
+
+	describe("readPreState", () => {
+		it("should return null when pre.json does not exist", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+
+			expect(readPreState()).toBeNull();
+		});
+
+		it("should parse exit mode", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ mode: "exit", tag: "beta", initialVersions: {}, changesets: [] }),
+			);
+
+			expect(readPreState()).toEqual({ mode: "exit", tag: "beta", initialVersions: {}, changesets: [] });
+		});
+
+		it("should return null for invalid JSON", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue("not json");
+
+			expect(readPreState()).toBeNull();
+		});
+
+		it("should return null when mode or tag is missing", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ mode: "pre" }));
+
+			expect(readPreState()).toBeNull();
+		});
+	});
+
+	describe("readChangesetConfig", () => {
+		it("should return defaults when config.json does not exist", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+
+			expect(readChangesetConfig()).toEqual(defaultConfig);
+		});
+
+		it("should read the ignore list", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ ignore: ["@scope/docs", "@scope/example-*"] }));
+
+			expect(readChangesetConfig()).toEqual({ ...defaultConfig, ignore: ["@scope/docs", "@scope/example-*"] });
+		});
+
+		it("should read updateInternalDependencies", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ updateInternalDependencies: "minor" }));
+
+			expect(readChangesetConfig().updateInternalDependencies).toBe("minor");
+		});
+
+		it("should read fixed, linked and privatePackages", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({
+					fixed: [["@scope/a", "@scope/b"], [], "bad"],
+					linked: [["@scope/plugin-*"]],
+					privatePackages: { version: false },
+				}),
+			);
+
+			expect(readChangesetConfig()).toEqual({
+				...defaultConfig,
+				fixed: [["@scope/a", "@scope/b"]],
+				linked: [["@scope/plugin-*"]],
+				privatePackages: { version: false, tag: false },
+			});
+		});
+
+		it("should read the changelog generator", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(
+				JSON.stringify({ changelog: ["@changesets/changelog-github", { repo: "owner/repo" }] }),
+			);
+
+			expect(readChangesetConfig().changelog).toBe("@changesets/changelog-github");
+
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ changelog: false }));
+
+			expect(readChangesetConfig().changelog).toBeNull();
+		});
+
+		it("should treat privatePackages: false as neither versioned nor tagged", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(JSON.stringify({ privatePackages: false }));
+
+			expect(readChangesetConfig().privatePackages).toEqual({ version: false, tag: false });
+		});
+
+		it("should return defaults for invalid JSON", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue("not json");
+
+			expect(readChangesetConfig()).toEqual(defaultConfig);
+		});
+	});
+
+	describe("applyChangesetConfig", () => {
+		const workspace = (names: string[], privateNames: string[] = []) =>
+			new Map(
+				names.map((name) => [
+					name,
+					{ name, path: name, version: "1.0.0", private: privateNames.includes(name), dependencies: [] },
+				]),
+			);
+
+		it("should return the declared bumps without config", () => {
+			const declared = new Map<string, BumpType>([["pkg-a", "minor"]]);
+
+			expect(applyChangesetConfig(declared, defaultConfig, new Map()).bumps).toEqual(declared);
+		});
+
+		it("should drop ignored packages", () => {
+			const declared = new Map<string, BumpType>([
+				["pkg-a", "minor"],
+				["example-app", "patch"],
+			]);
+
+			const effective = applyChangesetConfig(declared, { ...defaultConfig, ignore: ["example-*"] }, new Map()).bumps;
+
+			expect([...effective]).toEqual([["pkg-a", "minor"]]);
+		});
+
+		it("should drop private packages when they are not versioned", () => {
+			const declared = new Map<string, BumpType>([
+				["pkg-a", "minor"],
+				["docs", "patch"],
+			]);
+			const config = { ...defaultConfig, privatePackages: { version: false, tag: false } };
+
+			const effective = applyChangesetConfig(declared, config, workspace(["pkg-a", "docs"], ["docs"])).bumps;
+
+			expect([...effective]).toEqual([["pkg-a", "minor"]]);
+		});
+
+		it("should release every fixed group member with the highest bump", () => {
+			const declared = new Map<string, BumpType>([
+				["@scope/a", "patch"],
+				["@scope/b", "minor"],
+			]);
+			const config = { ...defaultConfig, fixed: [["@scope/*"]] };
+
+			const effective = applyChangesetConfig(
+				declared,
+				config,
+				workspace(["@scope/a", "@scope/b", "@scope/c", "other"]),
+			).bumps;
+
+			expect(Object.fromEntries(effective)).toEqual({ "@scope/a": "minor", "@scope/b": "minor", "@scope/c": "minor" });
+		});
+
+		it("should only raise released members of a linked group", () => {
+			const declared = new Map<string, BumpType>([
+				["pkg-a", "major"],
+				["pkg-b", "patch"],
+			]);
+			const config = { ...defaultConfig, linked: [["pkg-a", "pkg-b", "pkg-c"]] };
+
+			const effective = applyChangesetConfig(declared, config, workspace(["pkg-a", "pkg-b", "pkg-c"])).bumps;
+
+			expect(Object.fromEntries(effective)).toEqual({ "pkg-a": "major", "pkg-b": "major" });
+		});
+
+		it("should settle bumps across overlapping groups", () => {
+			const declared = new Map<string, BumpType>([
+				["pkg-a", "patch"],
+				["pkg-c", "major"],
+			]);
+			const config = { ...defaultConfig, fixed: [["pkg-a", "pkg-b"]], linked: [["pkg-b", "pkg-c"]] };
+
+			const effective = applyChangesetConfig(declared, config, workspace(["pkg-a", "pkg-b", "pkg-c"])).bumps;
+
+			expect(Object.fromEntries(effective)).toEqual({ "pkg-a": "major", "pkg-b": "major", "pkg-c": "major" });
+		});
+
+		describe("internal dependents", () => {
+			// core <- utils <- cli (dependencies), core <- plugin (peer), core <- docs (dev)
+			const graph = new Map(
+				[
+					{ name: "core", dependencies: [] },
+					{ name: "utils", dependencies: [{ name: "core", range: "workspace:^", type: "dependencies" as const }] },
+					{ name: "cli", dependencies: [{ name: "utils", range: "^1.0.0", type: "dependencies" as const }] },
+					{ name: "plugin", dependencies: [{ name: "core", range: "^1.0.0", type: "peerDependencies" as const }] },
+					{ name: "docs", dependencies: [{ name: "core", range: "^1.0.0", type: "devDependencies" as const }] },
+				].map((pkg) => [pkg.name, { ...pkg, path: pkg.name, version: "1.0.0", private: false }]),
+			);
+
+			it("should release transitive dependents with a patch bump", () => {
+				const plan = applyChangesetConfig(new Map<string, BumpType>([["core", "patch"]]), defaultConfig, graph);
+
+				expect(Object.fromEntries(plan.bumps)).toEqual({
+					core: "patch",
+					utils: "patch",
+					cli: "patch",
+					plugin: "patch",
+				});
+				expect(Object.fromEntries(plan.sources)).toEqual({
+					core: "direct",
+					utils: "dependent",
+					cli: "dependent",
+					plugin: "dependent",
+				});
+			});
+
+			it("should release peer dependents with a major bump for minor changes", () => {
+				const plan = applyChangesetConfig(new Map<string, BumpType>([["core", "minor"]]), defaultConfig, graph);
+
+				expect(plan.bumps.get("plugin")).toBe("major");
+				expect(plan.bumps.get("utils")).toBe("patch");
+			});
+
+			it("should only release dependents of minor bumps or out-of-range versions with updateInternalDependencies: minor", () => {
+				const config: ChangesetConfig = { ...defaultConfig, updateInternalDependencies: "minor" };
+
+				expect(
+					Object.fromEntries(applyChangesetConfig(new Map<string, BumpType>([["core", "patch"]]), config, graph).bumps),
+				).toEqual({ core: "patch" });
+
+				// utils 1.0.0 -> 2.0.0 leaves cli's ^1.0.0 range
+				const plan = applyChangesetConfig(new Map<string, BumpType>([["utils", "major"]]), config, graph);
+				expect(Object.fromEntries(plan.bumps)).toEqual({ utils: "major", cli: "patch" });
+			});
+
+			it("should keep direct bumps that are higher than the dependent bump", () => {
+				const plan = applyChangesetConfig(
+					new Map<string, BumpType>([
+						["core", "patch"],
+						["utils", "minor"],
+					]),
+					defaultConfig,
+					graph,
+				);
+
+				expect(plan.bumps.get("utils")).toBe("minor");
+				expect(plan.sources.get("utils")).toBe("direct");
+			});
 		});
 	});
 
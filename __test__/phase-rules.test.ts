@@ -0,0 +1,151 @@
+import * as fs from "node:fs";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { PhaseRuleFacts } from "../src/utils/phase-rules.js";
+import {
+	DEFAULT_PHASE_RULES,
+	formatPhaseRuleReason,
+	loadPhaseRules,
+	matchesPhaseRule,
+	parsePhaseRules,
+} from "../src/utils/phase-rules.js";
+
+// Mock node:fs
+vi.mock("node:fs");
+
+describe("phase-rules", () => {
+	const facts: PhaseRuleFacts = {
+		event: "push",
+		ref: "refs/heads/main",
+		labels: [],
+		hasChangesets: false,
+		releaseCommit: false,
+		branch: "target",
+		preRelease: false,
+	};
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe("loadPhaseRules", () => {
+		it("should return the built-in rules when the file does not exist", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(false);
+
+			expect(loadPhaseRules()).toEqual(DEFAULT_PHASE_RULES);
+		});
+
+		it("should parse JSONC with comments and trailing commas", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(`{
+	// Docs previews for labelled PRs
+	"rules": [
+		{ "name": "docs", "phase": "docs-preview", "when": { "event": "pull_request", "labels": ["docs"] }, },
+	],
+}`);
+
+			expect(loadPhaseRules()).toEqual([
+				{ name: "docs", phase: "docs-preview", when: { event: "pull_request", labels: ["docs"] }, reason: undefined },
+			]);
+		});
+
+		it("should throw on syntax errors", () => {
+			vi.mocked(fs.existsSync).mockReturnValue(true);
+			vi.mocked(fs.readFileSync).mockReturnValue(`{ "rules": [ }`);
+
+			expect(() => loadPhaseRules()).toThrow(
+				/Invalid phase rules file \.github\/workflow-control\.jsonc: \w+ at offset/,
+			);
+		});
+	});
+
+	describe("parsePhaseRules", () => {
+		it("should append the built-in rules with extendDefaults", () => {
+			const rules = parsePhaseRules({
+				extendDefaults: true,
+				rules: [{ phase: "nightly", when: { event: "schedule" } }],
+			});
+
+			expect(rules[0]).toEqual({ name: "rule 1", phase: "nightly", when: { event: "schedule" }, reason: undefined });
+			expect(rules.slice(1)).toEqual(DEFAULT_PHASE_RULES);
+		});
+
+		it("should reject a missing rules array", () => {
+			expect(() => parsePhaseRules({})).toThrow('expected an object with a "rules" array');
+		});
+
+		it("should reject rules without a phase", () => {
+			expect(() => parsePhaseRules({ rules: [{ when: {} }] })).toThrow("rules[0].phase must be a non-empty string");
+		});
+
+		it("should reject unknown conditions", () => {
+			expect(() => parsePhaseRules({ rules: [{ phase: "x", when: { actor: "me" } }] })).toThrow(
+				"rules[0].when.actor is not a known condition",
+			);
+		});
+
+		it("should reject conditions with the wrong type", () => {
+			expect(() => parsePhaseRules({ rules: [{ phase: "x", when: { releaseCommit: "yes" } }] })).toThrow(
+				"rules[0].when.releaseCommit must be a boolean",
+			);
+			expect(() => parsePhaseRules({ rules: [{ phase: "x", when: { releasePR: "closed" } }] })).toThrow(
+				'rules[0].when.releasePR must be "open", "merged" or "queued"',
+			);
+		});
+	});
+
+	describe("matchesPhaseRule", () => {
+		it("should match when every condition holds", () => {
+			const rule = { name: "r", phase: "x", when: { event: ["push", "workflow_dispatch"], branch: "target" as const } };
+
+			expect(matchesPhaseRule(rule, facts)).toBe(true);
+			expect(matchesPhaseRule(rule, { ...facts, event: "pull_request" })).toBe(false);
+		});
+
+		it("should match ref patterns against branch names and full refs", () => {
+			expect(matchesPhaseRule({ name: "r", phase: "x", when: { ref: "release/*" } }, facts)).toBe(false);
+			expect(
+				matchesPhaseRule(
+					{ name: "r", phase: "x", when: { ref: "release/*" } },
+					{ ...facts, ref: "refs/heads/release/1.x" },
+				),
+			).toBe(true);
+			expect(
+				matchesPhaseRule(
+					{ name: "r", phase: "x", when: { ref: "refs/tags/*" } },
+					{ ...facts, ref: "refs/tags/v1.0.0" },
+				),
+			).toBe(true);
+		});
+
+		it("should require all labels", () => {
+			const rule = { name: "r", phase: "x", when: { labels: ["docs", "preview"] } };
+
+			expect(matchesPhaseRule(rule, { ...facts, labels: ["docs"] })).toBe(false);
+			expect(matchesPhaseRule(rule, { ...facts, labels: ["preview", "docs"] })).toBe(true);
+		});
+
+		it("should match changeset presence", () => {
+			const rule = { name: "r", phase: "x", when: { hasChangesets: true } };
+
+			expect(matchesPhaseRule(rule, facts)).toBe(false);
+			expect(matchesPhaseRule(rule, { ...facts, hasChangesets: true })).toBe(true);
+		});
+	});
+
+	describe("formatPhaseRuleReason", () => {
+		it("should fill placeholders and keep unknown ones", () => {
+			const rule = { name: "r", phase: "x", when: {}, reason: "PR #{pr} into {targetBranch} {unknown}" };
+
+			expect(formatPhaseRuleReason(rule, { pr: 5, targetBranch: "main" })).toBe("PR #5 into main {unknown}");
+		});
+
+		it("should name the rule when it has no reason", () => {
+			expect(formatPhaseRuleReason({ name: "docs", phase: "x", when: {} }, {})).toBe('Matched rule "docs"');
+		});
+	});
+});
@@ -0,0 +1,130 @@
+import * as core from "@actions/core";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { PR_COMMENT_MARKER, buildPreviewComment, upsertPreviewComment } from "../src/utils/pr-comment.js";
+
+vi.mock("@actions/core");
+
+type Context = typeof githubContext;
+type Octokit = ReturnType<typeof getOctokit>;
+
+const context = {
+	eventName: "pull_request",
+	payload: {},
+	repo: { owner: "test-owner", repo: "test-repo" },
+} as unknown as Context;
+
+function makeOctokit(comments: Array<{ id: number; body?: string }>) {
+	const rest = {
+		issues: {
+			listComments: vi.fn(),
+			createComment: vi.fn().mockResolvedValue({}),
+			updateComment: vi.fn().mockResolvedValue({}),
+			deleteComment: vi.fn().mockResolvedValue({}),
+		},
+	};
+	return {
+		octokit: { paginate: vi.fn().mockResolvedValue(comments), rest } as unknown as Octokit,
+		issues: rest.issues,
+	};
+}
+
+describe("pr-comment", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("buildPreviewComment", () => {
+		it("should list the added changesets and their packages", () => {
+			const body = buildPreviewComment({
+				changesets: [
+					{
+						id: "brave-cats-run",
+						summary: "Add a flag",
+						releases: [
+							{ name: "pkg-b", type: "patch" },
+							{ name: "pkg-a", type: "minor" },
+						],
+					},
+				],
+				packageBumps: new Map([
+					["pkg-a", "minor"],
+					["pkg-b", "minor"],
+				]),
+				nextVersions: [{ name: "pkg-a", bump: "minor", current: "1.0.0", next: "1.1.0" }],
+			});
+
+			expect(body?.startsWith(`${PR_COMMENT_MARKER}\n### Release Preview`)).toBe(true);
+			expect(body).toContain("This pull request adds 1 changeset(s).");
+			expect(body).toContain("`brave-cats-run`");
+			expect(body).toContain("`pkg-b` patch, `pkg-a` minor");
+			expect(body).toContain("1.0.0 → 1.1.0");
+			expect(body).toContain("not released");
+			expect(body?.indexOf("`pkg-a` |")).toBeLessThan(body?.indexOf("`pkg-b` |") ?? 0);
+		});
+
+		it("should return null without added changesets", () => {
+			expect(buildPreviewComment({ changesets: [], packageBumps: new Map(), nextVersions: [] })).toBeNull();
+		});
+	});
+
+	describe("upsertPreviewComment", () => {
+		const body = `${PR_COMMENT_MARKER}\nPreview`;
+
+		it("should create the comment when there is none", async () => {
+			const { octokit, issues } = makeOctokit([{ id: 1, body: "Looks good" }]);
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body })).resolves.toBe("created");
+			expect(issues.createComment).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				issue_number: 7,
+				body,
+			});
+		});
+
+		it("should update the marked comment in place", async () => {
+			const { octokit, issues } = makeOctokit([{ id: 1 }, { id: 2, body: `${PR_COMMENT_MARKER}\nOld` }]);
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body })).resolves.toBe("updated");
+			expect(issues.updateComment).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				comment_id: 2,
+				body,
+			});
+			expect(issues.createComment).not.toHaveBeenCalled();
+		});
+
+		it("should leave an identical comment alone", async () => {
+			const { octokit, issues } = makeOctokit([{ id: 2, body }]);
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body })).resolves.toBe("unchanged");
+			expect(issues.updateComment).not.toHaveBeenCalled();
+		});
+
+		it("should delete the comment once the pull request adds no changesets", async () => {
+			const { octokit, issues } = makeOctokit([{ id: 2, body }]);
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body: null })).resolves.toBe("deleted");
+			expect(issues.deleteComment).toHaveBeenCalledWith({ owner: "test-owner", repo: "test-repo", comment_id: 2 });
+		});
+
+		it("should do nothing without a comment to delete", async () => {
+			const { octokit, issues } = makeOctokit([]);
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body: null })).resolves.toBe("none");
+			expect(issues.deleteComment).not.toHaveBeenCalled();
+		});
+
+		it("should warn when the API call fails", async () => {
+			const { octokit } = makeOctokit([]);
+			vi.mocked(octokit.paginate).mockRejectedValue(new Error("Resource not accessible by integration"));
+
+			await expect(upsertPreviewComment({ octokit, context, pullNumber: 7, body })).resolves.toBe("none");
+			expect(vi.mocked(core.warning)).toHaveBeenCalledWith(
+				"Failed to update the release preview comment: Resource not accessible by integration",
+			);
+		});
+	});
+});
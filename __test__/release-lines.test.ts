@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { matchPattern, parseReleaseLines, resolveReleaseLine } from "../src/utils/release-lines.js";
+
+describe("release-lines", () => {
+	describe("parseReleaseLines", () => {
+		it("should return an empty list for empty input", () => {
+			expect(parseReleaseLines("")).toEqual([]);
+		});
+
+		it("should parse one mapping per line", () => {
+			const lines = parseReleaseLines(`
+main: changeset-release/main
+release/*: changeset-release/release/*
+`);
+
+			expect(lines).toEqual([
+				{ target: "main", release: "changeset-release/main" },
+				{ target: "release/*", release: "changeset-release/release/*" },
+			]);
+		});
+
+		it("should ignore comments and blank lines", () => {
+			const lines = parseReleaseLines("# maintenance\n\nrelease/*: changeset-release/release/*");
+
+			expect(lines).toHaveLength(1);
+		});
+
+		it("should throw on a line without separator", () => {
+			expect(() => parseReleaseLines("main changeset-release/main")).toThrow(/Invalid release line/);
+		});
+
+		it("should throw when wildcard counts differ", () => {
+			expect(() => parseReleaseLines("release/*: changeset-release/main")).toThrow(/same number of "\*"/);
+		});
+	});
+
+	describe("matchPattern", () => {
+		it("should match exact branch names", () => {
+			expect(matchPattern("main", "main")).toEqual([]);
+			expect(matchPattern("main", "main2")).toBeNull();
+		});
+
+		it("should capture wildcards", () => {
+			expect(matchPattern("release/*", "release/1.x")).toEqual(["1.x"]);
+		});
+
+		it("should escape regex characters in patterns", () => {
+			expect(matchPattern("release/1.x", "release/1ax")).toBeNull();
+		});
+	});
+
+	describe("resolveReleaseLine", () => {
+		const lines = parseReleaseLines("main: changeset-release/main\nrelease/*: changeset-release/release/*");
+
+		it("should resolve from a target branch", () => {
+			expect(resolveReleaseLine(lines, { target: "release/1.x", release: "release/1.x" })).toEqual({
+				name: "release/1.x",
+				targetBranch: "release/1.x",
+				releaseBranch: "changeset-release/release/1.x",
+			});
+		});
+
+		it("should resolve from a release branch", () => {
+			expect(
+				resolveReleaseLine(lines, {
+					target: "changeset-release/release/2.x",
+					release: "changeset-release/release/2.x",
+				}),
+			).toEqual({
+				name: "release/2.x",
+				targetBranch: "release/2.x",
+				releaseBranch: "changeset-release/release/2.x",
+			});
+		});
+
+		it("should use the first matching line", () => {
+			expect(resolveReleaseLine(lines, { target: "main" })?.releaseBranch).toBe("changeset-release/main");
+		});
+
+		it("should prefer a release pattern over a catch-all target pattern", () => {
+			const catchAll = parseReleaseLines("*: changeset-release/*");
+
+			expect(
+				resolveReleaseLine(catchAll, { target: "changeset-release/main", release: "changeset-release/main" }),
+			).toEqual({ name: "main", targetBranch: "main", releaseBranch: "changeset-release/main" });
+			expect(resolveReleaseLine(catchAll, { target: "main", release: "feature/x" })).toEqual({
+				name: "main",
+				targetBranch: "main",
+				releaseBranch: "changeset-release/main",
+			});
+		});
+
+		it("should return undefined when nothing matches", () => {
+			expect(resolveReleaseLine(lines, { target: "feature/x", release: "feature/x" })).toBeUndefined();
+		});
+	});
+});
@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import type { NextVersion } from "../src/utils/next-versions.js";
+import type { BumpType, ParsedChangeset } from "../src/utils/parse-changesets.js";
+import type { BuildReleaseNotesOptions } from "../src/utils/release-notes.js";
+import { buildReleaseNotes, renderReleaseNotes } from "../src/utils/release-notes.js";
+import type { WorkspacePackage } from "../src/utils/workspace-packages.js";
+
+function makeChangeset(id: string, summary: string, releases: Record<string, BumpType>): ParsedChangeset {
+	return { id, summary, releases: Object.entries(releases).map(([name, type]) => ({ name, type })) };
+}
+
+function makeOptions(overrides: Partial<BuildReleaseNotesOptions> = {}): BuildReleaseNotesOptions {
+	return {
+		changesets: [],
+		packageBumps: new Map(),
+		packages: new Map(),
+		nextVersions: [],
+		preState: null,
+		...overrides,
+	};
+}
+
+describe("release-notes", () => {
+	describe("buildReleaseNotes", () => {
+		it("should group changesets by the bump they declare for each package", () => {
+			const notes = buildReleaseNotes(
+				makeOptions({
+					changesets: [
+						makeChangeset("fix", "Fix a crash", { "pkg-a": "patch" }),
+						makeChangeset("feature", "Add a flag\n\nUse it like this", { "pkg-a": "minor", "pkg-b": "patch" }),
+					],
+					packageBumps: new Map<string, BumpType>([
+						["pkg-a", "minor"],
+						["pkg-b", "patch"],
+					]),
+					nextVersions: [{ name: "pkg-a", bump: "minor", current: "1.0.0", next: "1.1.0" }],
+				}),
+			);
+
+			expect(notes).toEqual([
+				{
+					name: "pkg-a",
+					version: "1.1.0",
+					groups: [
+						{ bump: "minor", sections: [{ heading: null, entries: ["- Add a flag\n\n  Use it like this"] }] },
+						{ bump: "patch", sections: [{ heading: null, entries: ["- Fix a crash"] }] },
+					],
+				},
+				{
+					name: "pkg-b",
+					version: null,
+					groups: [{ bump: "patch", sections: [{ heading: null, entries: ["- Add a flag\n\n  Use it like this"] }] }],
+				},
+			]);
+		});
+
+		it("should split summaries at section headings", () => {
+			const [notes] = buildReleaseNotes(
+				makeOptions({
+					changesets: [
+						makeChangeset("one", "## Features\n\n* Add a flag\n\n## Bug Fixes\n\n* Fix a crash", { "pkg-a": "minor" }),
+						makeChangeset("two", "Plain entry\n\n## Features\n\n* Add another flag", { "pkg-a": "minor" }),
+						makeChangeset("three", "```md\n## Not a heading\n```", { "pkg-a": "minor" }),
+					],
+					packageBumps: new Map([["pkg-a", "minor"]]),
+				}),
+			);
+
+			expect(notes.groups[0].sections).toEqual([
+				{ heading: null, entries: ["- Plain entry", "- ```md\n  ## Not a heading\n  ```"] },
+				{ heading: "Features", entries: ["* Add a flag", "* Add another flag"] },
+				{ heading: "Bug Fixes", entries: ["* Fix a crash"] },
+			]);
+		});
+
+		it("should list updated internal dependencies", () => {
+			const packages = new Map<string, WorkspacePackage>([
+				[
+					"pkg-app",
+					{
+						name: "pkg-app",
+						path: "packages/app",
+						version: "2.0.0",
+						private: false,
+						dependencies: [
+							{ name: "pkg-core", range: "^1.0.0", type: "dependencies" },
+							{ name: "pkg-test", range: "^1.0.0", type: "devDependencies" },
+						],
+					},
+				],
+			]);
+			const nextVersions: NextVersion[] = [
+				{ name: "pkg-app", bump: "patch", current: "2.0.0", next: "2.0.1" },
+				{ name: "pkg-core", bump: "minor", current: "1.0.0", next: "1.1.0" },
+			];
+
+			const [app] = buildReleaseNotes(
+				makeOptions({
+					packageBumps: new Map<string, BumpType>([
+						["pkg-app", "patch"],
+						["pkg-core", "minor"],
+						["pkg-test", "patch"],
+					]),
+					packages,
+					nextVersions,
+				}),
+			);
+
+			expect(app.groups).toEqual([
+				{ bump: "patch", sections: [{ heading: null, entries: ["- Updated dependencies\n  - pkg-core@1.1.0"] }] },
+			]);
+		});
+
+		it("should leave out changesets consumed by a pre-release", () => {
+			const [notes] = buildReleaseNotes(
+				makeOptions({
+					changesets: [
+						makeChangeset("old", "Already released", { "pkg-a": "minor" }),
+						makeChangeset("new", "Not released yet", { "pkg-a": "patch" }),
+					],
+					packageBumps: new Map([["pkg-a", "minor"]]),
+					preState: { mode: "pre", tag: "next", initialVersions: {}, changesets: ["old"] },
+				}),
+			);
+
+			expect(notes.groups).toEqual([{ bump: "patch", sections: [{ heading: null, entries: ["- Not released yet"] }] }]);
+		});
+	});
+
+	describe("renderReleaseNotes", () => {
+		it("should render changelog markdown", () => {
+			const markdown = renderReleaseNotes({
+				name: "pkg-a",
+				version: "1.1.0",
+				groups: [
+					{
+						bump: "minor",
+						sections: [
+							{ heading: null, entries: ["- Add a flag", "- Add another flag"] },
+							{ heading: "Features", entries: ["* Add a command"] },
+						],
+					},
+					{ bump: "patch", sections: [{ heading: null, entries: ["- Fix a crash"] }] },
+				],
+			});
+
+			expect(markdown).toBe(
+				[
+					"## 1.1.0",
+					"",
+					"### Minor Changes",
+					"",
+					"- Add a flag\n- Add another flag",
+					"",
+					"#### Features",
+					"",
+					"* Add a command",
+					"",
+					"### Patch Changes",
+					"",
+					"- Fix a crash",
+				].join("\n"),
+			);
+		});
+
+		it("should note packages without entries", () => {
+			expect(renderReleaseNotes({ name: "pkg-b", version: null, groups: [] })).toBe(
+				"## Unreleased\n\n_No changeset entries_",
+			);
+		});
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_RELEASE_PR_MATCHER, isReleasePR, parseReleasePRMatcher } from "../src/utils/release-pr-matcher.js";
+
+describe("release-pr-matcher", () => {
+	const branches = { releaseBranch: "changeset-release/main", targetBranch: "main" };
+
+	describe("parseReleasePRMatcher", () => {
+		it("should default to the branch strategy", () => {
+			expect(parseReleasePRMatcher({ strategy: "", labels: "", authors: "" })).toEqual(DEFAULT_RELEASE_PR_MATCHER);
+		});
+
+		it("should parse combined strategies and lists", () => {
+			const matcher = parseReleasePRMatcher({
+				strategy: "label, author",
+				labels: "release\nautorelease: pending",
+				authors: "github-actions[bot]",
+			});
+
+			expect(matcher).toEqual({
+				strategies: ["label", "author"],
+				labels: ["release", "autorelease: pending"],
+				authors: ["github-actions[bot]"],
+			});
+		});
+
+		it("should throw for unknown strategies", () => {
+			expect(() => parseReleasePRMatcher({ strategy: "title", labels: "", authors: "" })).toThrow(
+				'Unknown release PR strategy "title"',
+			);
+		});
+
+		it("should require labels for the label strategy", () => {
+			expect(() => parseReleasePRMatcher({ strategy: "label", labels: "", authors: "" })).toThrow(
+				"requires at least one label",
+			);
+		});
+
+		it("should require authors for the author strategy", () => {
+			expect(() => parseReleasePRMatcher({ strategy: "author", labels: "", authors: " " })).toThrow(
+				"requires at least one login",
+			);
+		});
+	});
+
+	describe("isReleasePR", () => {
+		const pr = {
+			head: { ref: "release/run-123" },
+			base: { ref: "main" },
+			labels: [{ name: "release" }],
+			user: { login: "github-actions[bot]" },
+		};
+
+		it("should match by head branch by default", () => {
+			expect(
+				isReleasePR({ ...pr, head: { ref: "changeset-release/main" } }, DEFAULT_RELEASE_PR_MATCHER, branches),
+			).toBe(true);
+			expect(isReleasePR(pr, DEFAULT_RELEASE_PR_MATCHER, branches)).toBe(false);
+		});
+
+		it("should match by label", () => {
+			const matcher = { strategies: ["label" as const], labels: ["release"], authors: [] };
+
+			expect(isReleasePR(pr, matcher, branches)).toBe(true);
+			expect(isReleasePR({ ...pr, labels: ["release"] }, matcher, branches)).toBe(true);
+			expect(isReleasePR({ ...pr, labels: [] }, matcher, branches)).toBe(false);
+		});
+
+		it("should match by author case-insensitively", () => {
+			const matcher = { strategies: ["author" as const], labels: [], authors: ["GitHub-Actions[bot]"] };
+
+			expect(isReleasePR(pr, matcher, branches)).toBe(true);
+			expect(isReleasePR({ ...pr, user: null }, matcher, branches)).toBe(false);
+		});
+
+		it("should require every strategy to match", () => {
+			const matcher = { strategies: ["label" as const, "author" as const], labels: ["release"], authors: ["bot"] };
+
+			expect(isReleasePR(pr, matcher, branches)).toBe(false);
+			expect(isReleasePR({ ...pr, user: { login: "bot" } }, matcher, branches)).toBe(true);
+		});
+
+		it("should require the target branch as base", () => {
+			const matcher = { strategies: ["label" as const], labels: ["release"], authors: [] };
+
+			expect(isReleasePR({ ...pr, base: { ref: "develop" } }, matcher, branches)).toBe(false);
+			expect(isReleasePR(undefined, matcher, branches)).toBe(false);
+		});
+	});
+});
@@ -0,0 +1,200 @@
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchChangesetFiles, fetchWorkspacePackages } from "../src/utils/remote-changesets.js";
+
+type Context = typeof githubContext;
+type Octokit = ReturnType<typeof getOctokit>;
+
+const context = {
+	eventName: "push",
+	sha: "head-sha",
+	payload: {},
+	repo: { owner: "test-owner", repo: "test-repo" },
+} as unknown as Context;
+
+function makeOctokit(getContent: ReturnType<typeof vi.fn>, getBlob: ReturnType<typeof vi.fn> = vi.fn()): Octokit {
+	return { rest: { repos: { getContent }, git: { getBlob } } } as unknown as Octokit;
+}
+
+function blob(content: string) {
+	return { data: { content: Buffer.from(content).toString("base64"), encoding: "base64" } };
+}
+
+function makeTreeOctokit(files: Record<string, string>, truncated = false) {
+	const getTree = vi.fn().mockResolvedValue({
+		data: {
+			truncated,
+			tree: [
+				{ path: "packages", type: "tree", sha: "packages-tree-sha" },
+				...Object.keys(files).map((file) => ({ path: file, type: "blob", sha: file })),
+			],
+		},
+	});
+	const getBlob = vi
+		.fn()
+		.mockImplementation(({ file_sha }: { file_sha: string }) => Promise.resolve(blob(files[file_sha])));
+	return { octokit: { rest: { git: { getTree, getBlob } } } as unknown as Octokit, getTree, getBlob };
+}
+
+describe("remote-changesets", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	describe("fetchChangesetFiles", () => {
+		it("should download changesets, pre.json and config.json at the commit", async () => {
+			const getContent = vi.fn().mockResolvedValue({
+				data: [
+					{ name: "README.md", type: "file", sha: "readme-sha" },
+					{ name: "brave-cats-run.md", type: "file", sha: "changeset-sha" },
+					{ name: "config.json", type: "file", sha: "config-sha" },
+					{ name: "pre.json", type: "file", sha: "pre-sha" },
+					{ name: "templates", type: "dir", sha: "dir-sha" },
+				],
+			});
+			const getBlob = vi
+				.fn()
+				.mockImplementation(({ file_sha }: { file_sha: string }) => Promise.resolve(blob(`content of ${file_sha}`)));
+
+			const files = await fetchChangesetFiles({ octokit: makeOctokit(getContent, getBlob), context });
+
+			expect(getContent).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				path: ".changeset",
+				ref: "head-sha",
+			});
+			expect(getBlob).toHaveBeenCalledTimes(3);
+			expect(files).toEqual(
+				new Map([
+					["brave-cats-run.md", "content of changeset-sha"],
+					["config.json", "content of config-sha"],
+					["pre.json", "content of pre-sha"],
+				]),
+			);
+		});
+
+		it("should use the given ref and changeset path", async () => {
+			const getContent = vi.fn().mockResolvedValue({ data: [] });
+
+			await fetchChangesetFiles({
+				octokit: makeOctokit(getContent),
+				context,
+				ref: "main",
+				changesetPath: "./config/.changeset/",
+			});
+
+			expect(getContent).toHaveBeenCalledWith(expect.objectContaining({ path: "config/.changeset", ref: "main" }));
+		});
+
+		it("should return no files when the directory does not exist", async () => {
+			const getContent = vi.fn().mockRejectedValue(Object.assign(new Error("Not Found"), { status: 404 }));
+
+			await expect(fetchChangesetFiles({ octokit: makeOctokit(getContent), context })).resolves.toEqual(new Map());
+		});
+
+		it("should rethrow other API errors", async () => {
+			const getContent = vi.fn().mockRejectedValue(Object.assign(new Error("Bad credentials"), { status: 401 }));
+
+			await expect(fetchChangesetFiles({ octokit: makeOctokit(getContent), context })).rejects.toThrow(
+				"Bad credentials",
+			);
+		});
+	});
+
+	describe("fetchWorkspacePackages", () => {
+		it("should read the packages matched by pnpm-workspace.yaml", async () => {
+			const { octokit, getTree } = makeTreeOctokit({
+				"package.json": JSON.stringify({ name: "root", private: true }),
+				"pnpm-workspace.yaml": [
+					"# Workspace packages",
+					"packages:",
+					'  - "packages/*"',
+					"  - 'tools/cli' # the CLI",
+					"  - '!packages/ignored'",
+					"onlyBuiltDependencies:",
+					"  - esbuild",
+				].join("\n"),
+				"packages/a/package.json": JSON.stringify({ name: "pkg-a", version: "1.0.0" }),
+				"packages/b/package.json": JSON.stringify({
+					name: "pkg-b",
+					version: "2.0.0",
+					private: true,
+					dependencies: { "pkg-a": "workspace:*", semver: "^7.0.0" },
+					devDependencies: { "@scope/cli": "workspace:^" },
+				}),
+				"packages/ignored/package.json": JSON.stringify({ name: "pkg-ignored", version: "1.0.0" }),
+				"packages/a/node_modules/dep/package.json": JSON.stringify({ name: "dep", version: "1.0.0" }),
+				"tools/cli/package.json": JSON.stringify({ name: "@scope/cli", version: "0.1.0" }),
+				"docs/package.json": JSON.stringify({ name: "docs", version: "1.0.0" }),
+			});
+
+			const packages = await fetchWorkspacePackages({ octokit, context, ref: "run-head-sha" });
+
+			expect(getTree).toHaveBeenCalledWith({
+				owner: "test-owner",
+				repo: "test-repo",
+				tree_sha: "run-head-sha",
+				recursive: "true",
+			});
+			expect(packages).toEqual(
+				new Map([
+					["pkg-a", { name: "pkg-a", path: "packages/a", version: "1.0.0", private: false, dependencies: [] }],
+					[
+						"pkg-b",
+						{
+							name: "pkg-b",
+							path: "packages/b",
+							version: "2.0.0",
+							private: true,
+							dependencies: [
+								{ name: "pkg-a", range: "workspace:*", type: "dependencies" },
+								{ name: "@scope/cli", range: "workspace:^", type: "devDependencies" },
+							],
+						},
+					],
+					["@scope/cli", { name: "@scope/cli", path: "tools/cli", version: "0.1.0", private: false, dependencies: [] }],
+				]),
+			);
+		});
+
+		it("should read the workspaces of the root package.json", async () => {
+			const { octokit } = makeTreeOctokit({
+				"package.json": JSON.stringify({ name: "root", workspaces: { packages: ["apps/*"] } }),
+				"apps/web/package.json": JSON.stringify({ name: "web", version: "3.0.0" }),
+			});
+
+			const packages = await fetchWorkspacePackages({ octokit, context });
+
+			expect([...packages.keys()]).toEqual(["web"]);
+		});
+
+		it("should return the root package of a single-package repository", async () => {
+			const { octokit, getTree } = makeTreeOctokit({
+				"package.json": JSON.stringify({ name: "single", version: "1.2.3" }),
+			});
+
+			const packages = await fetchWorkspacePackages({ octokit, context });
+
+			expect(getTree).toHaveBeenCalledWith(expect.objectContaining({ tree_sha: "head-sha" }));
+			expect(packages).toEqual(
+				new Map([["single", { name: "single", path: ".", version: "1.2.3", private: false, dependencies: [] }]]),
+			);
+		});
+
+		it("should return no packages without a root package.json", async () => {
+			const { octokit, getBlob } = makeTreeOctokit({ "README.md": "# Readme" });
+
+			await expect(fetchWorkspacePackages({ octokit, context })).resolves.toEqual(new Map());
+			expect(getBlob).not.toHaveBeenCalled();
+		});
+
+		it("should throw when the tree is truncated", async () => {
+			const { octokit } = makeTreeOctokit({ "package.json": "{}" }, true);
+
+			await expect(fetchWorkspacePackages({ octokit, context })).rejects.toThrow(
+				"The repository tree at head-sha is too large to read the workspace through the API",
+			);
+		});
+	});
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { PhaseDetectionResult } from "../src/utils/detect-workflow-phase.js";
+import type { ParseChangesetsResult } from "../src/utils/parse-changesets.js";
+import { RESULT_SCHEMA_VERSION, buildResultOutput } from "../src/utils/result-output.js";
+
+describe("result-output", () => {
+	const phaseResult: PhaseDetectionResult = {
+		phase: "publishing",
+		reason: "Merged release PR #42 from changeset-release/main",
+		isReleaseBranch: false,
+		isMainBranch: true,
+		isReleaseCommit: true,
+		mergedReleasePRNumber: 42,
+		isPullRequestEvent: false,
+		isPRMerged: false,
+		isReleasePRMerged: false,
+		commitMessage: "Merge pull request #42",
+		isPreRelease: false,
+		isMergeGroupEvent: false,
+		decisionTrace: [],
+	};
+
+	const changesetResult: ParseChangesetsResult = {
+		hasChangesets: true,
+		changesetCount: 1,
+		changesets: [{ id: "brave-cats-run", summary: "Fix", releases: [{ name: "pkg-a", type: "patch" }] }],
+		releaseType: "patch",
+		affectedPackages: ["pkg-a"],
+		declaredBumps: new Map([["pkg-a", "patch"]]),
+		packageBumps: new Map([["pkg-a", "patch"]]),
+		packageSources: new Map([["pkg-a", "direct"]]),
+		packagePaths: new Map([["pkg-a", "packages/a"]]),
+		diagnostics: [],
+		preState: null,
+		unconsumedChangesetCount: 1,
+	};
+
+	it("should include the full results under a schema version", () => {
+		const output = buildResultOutput(phaseResult, changesetResult);
+
+		expect(output.schemaVersion).toBe(RESULT_SCHEMA_VERSION);
+		expect(output.phase).toEqual(phaseResult);
+		expect(output.changesets.changesets).toEqual(changesetResult.changesets);
+	});
+
+	it("should serialize package bumps as an object", () => {
+		const output = JSON.parse(JSON.stringify(buildResultOutput(phaseResult, changesetResult)));
+
+		expect(output.changesets.declaredBumps).toEqual({ "pkg-a": "patch" });
+		expect(output.changesets.packageBumps).toEqual({ "pkg-a": "patch" });
+		expect(output.changesets.packageSources).toEqual({ "pkg-a": "direct" });
+		expect(output.changesets.packagePaths).toEqual({ "pkg-a": "packages/a" });
+		expect(output.phase.isPullRequestEvent).toBe(false);
+		expect(output.phase.commitMessage).toBe("Merge pull request #42");
+	});
+});
@@ -120,6 +120,14 @@ describe("summary-writer", () => {
 		});
 	});
 
+	describe("details", () => {
+		it("should wrap content in a collapsible details element", () => {
+			const result = summaryWriter.details("Trace", "Hidden content");
+
+			expect(result).toBe("<details>\n<summary>Trace</summary>\n\nHidden content\n\n</details>");
+		});
+	});
+
 	describe("section", () => {
 		it("should build a section with level 2 heading", () => {
 			const result = summaryWriter.section("Title", 2, "Content here");
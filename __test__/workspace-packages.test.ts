@@ -0,0 +1,77 @@
+import * as path from "node:path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { getPackageInfos, getWorkspaceInfos } from "workspace-tools";
+import { readWorkspacePackages } from "../src/utils/workspace-packages.js";
+
+vi.mock("workspace-tools");
+
+describe("workspace-packages", () => {
+	const root = path.resolve("/repo");
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("should read workspace packages with relative paths", () => {
+		vi.mocked(getWorkspaceInfos).mockReturnValue([
+			{
+				name: "@scope/core",
+				path: path.join(root, "packages/core"),
+				packageJson: { name: "@scope/core", version: "1.0.0", packageJsonPath: "" },
+			},
+			{
+				name: "@scope/docs",
+				path: path.join(root, "docs"),
+				packageJson: { name: "@scope/docs", version: "0.0.0", private: true, packageJsonPath: "" },
+			},
+		]);
+
+		const packages = readWorkspacePackages(root);
+
+		expect(packages.get("@scope/core")).toEqual({
+			name: "@scope/core",
+			path: "packages/core",
+			version: "1.0.0",
+			private: false,
+			dependencies: [],
+		});
+		expect(packages.get("@scope/docs")?.private).toBe(true);
+	});
+
+	it("should keep only dependencies on workspace packages", () => {
+		vi.mocked(getWorkspaceInfos).mockReturnValue([
+			{
+				name: "@scope/core",
+				path: path.join(root, "packages/core"),
+				packageJson: { name: "@scope/core", version: "1.0.0", packageJsonPath: "" },
+			},
+			{
+				name: "@scope/cli",
+				path: path.join(root, "packages/cli"),
+				packageJson: {
+					name: "@scope/cli",
+					version: "1.0.0",
+					packageJsonPath: "",
+					dependencies: { "@scope/core": "workspace:^", chalk: "^5.0.0" },
+					peerDependencies: { "@scope/core": "^1.0.0" },
+				},
+			},
+		]);
+
+		expect(readWorkspacePackages(root).get("@scope/cli")?.dependencies).toEqual([
+			{ name: "@scope/core", range: "workspace:^", type: "dependencies" },
+			{ name: "@scope/core", range: "^1.0.0", type: "peerDependencies" },
+		]);
+	});
+
+	it("should fall back to the root package for single-package repositories", () => {
+		vi.mocked(getWorkspaceInfos).mockReturnValue(undefined);
+		vi.mocked(getPackageInfos).mockReturnValue({
+			"my-package": { name: "my-package", version: "2.1.0", packageJsonPath: path.join(root, "package.json") },
+		});
+
+		expect([...readWorkspacePackages(root).values()]).toEqual([
+			{ name: "my-package", path: ".", version: "2.1.0", private: false, dependencies: [] },
+		]);
+	});
+});
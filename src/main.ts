@@ -1,16 +1,42 @@
 import * as core from "@actions/core";
 import * as github from "@actions/github";
-import type { PhaseDetectionResult, WorkflowPhase } from "./utils/detect-workflow-phase.js";
-import { detectWorkflowPhase, detectWorkflowPhaseSync } from "./utils/detect-workflow-phase.js";
+import { attributeChangesets } from "./utils/changeset-attribution.js";
+import { checkChangesetCoverage } from "./utils/changeset-coverage.js";
+import type { ChangedFile, ChangesetDiff } from "./utils/changeset-diff.js";
+import { diffChangesets, getDiffRange, listChangedFilesWithGit } from "./utils/changeset-diff.js";
+import { parseCommitPatterns } from "./utils/commit-patterns.js";
+import type { PhaseDetectionResult, PhaseName } from "./utils/detect-workflow-phase.js";
+import { detectWorkflowPhase, detectWorkflowPhaseSync, resolveEventContext } from "./utils/detect-workflow-phase.js";
 import { PHASE, STATE, logger } from "./utils/logger.js";
-import type { ParseChangesetsResult } from "./utils/parse-changesets.js";
-import { parseChangesets } from "./utils/parse-changesets.js";
+import { applyMajorGate, parseMajorGate } from "./utils/major-gate.js";
+import type { NextVersion } from "./utils/next-versions.js";
+import { computeNextVersions } from "./utils/next-versions.js";
+import { buildPackageMatrix } from "./utils/package-matrix.js";
+import type { ChangesetConfig, ChangesetDiagnostic, ParseChangesetsResult } from "./utils/parse-changesets.js";
+import {
+	hasChangesets,
+	isChangesetFile,
+	parseChangesetConfig,
+	parseChangesetFiles,
+	parseChangesets,
+	readChangesetConfig,
+} from "./utils/parse-changesets.js";
+import { PHASE_RULES_FILE, loadPhaseRules } from "./utils/phase-rules.js";
+import { buildPreviewComment, upsertPreviewComment } from "./utils/pr-comment.js";
+import { parseReleaseLines } from "./utils/release-lines.js";
+import type { PackageReleaseNotes } from "./utils/release-notes.js";
+import { buildReleaseNotes, renderReleaseNotes } from "./utils/release-notes.js";
+import { parseReleasePRMatcher } from "./utils/release-pr-matcher.js";
+import { fetchChangesetFiles, fetchWorkspacePackages } from "./utils/remote-changesets.js";
+import { buildResultOutput } from "./utils/result-output.js";
 import { summaryWriter } from "./utils/summary-writer.js";
+import type { WorkspacePackage } from "./utils/workspace-packages.js";
+import { readWorkspacePackages } from "./utils/workspace-packages.js";
 
 /**
  * Get the emoji for a workflow phase
  */
-function getPhaseEmoji(phase: WorkflowPhase): string {
+function getPhaseEmoji(phase: PhaseName): string {
 	switch (phase) {
 		case "branch-management":
 			return PHASE.branch;
@@ -18,17 +44,23 @@ function getPhaseEmoji(phase: WorkflowPhase): string {
 			return PHASE.validation;
 		case "publishing":
 			return PHASE.publish;
+		case "pre-release-publishing":
+			return PHASE.publish;
 		case "close-issues":
 			return PHASE.publish;
+		case "blocked":
+			return STATE.issue;
 		case "none":
 			return PHASE.skip;
+		default:
+			return PHASE.rocket;
 	}
 }
 
 /**
  * Get the description for a workflow phase
  */
-function getPhaseDescription(phase: WorkflowPhase): string {
+function getPhaseDescription(phase: PhaseName): string {
 	switch (phase) {
 		case "branch-management":
 			return "Create or update the release branch with changesets";
@@ -36,19 +68,35 @@ function getPhaseDescription(phase: WorkflowPhase): string {
 			return "Validate the release branch (build, test, lint)";
 		case "publishing":
 			return "Publish packages and create GitHub releases";
+		case "pre-release-publishing":
+			return "Publish pre-release packages to the pre mode dist-tag";
 		case "close-issues":
 			return "Close linked issues after release PR merge";
+		case "blocked":
+			return "Publishing held back until the major release is approved";
 		case "none":
 			return "No release action needed";
+		default:
+			return "Custom phase from the phase rules file";
 	}
 }
 
+/**
+ * Whether release jobs should run for a phase
+ */
+function shouldContinue(phase: PhaseName): boolean {
+	return phase !== "none" && phase !== "blocked";
+}
+
 /**
  * Build the job summary markdown
  */
 function buildJobSummary(
 	phaseResult: PhaseDetectionResult | Omit<PhaseDetectionResult, "mergedReleasePRNumber">,
 	changesetResult: ParseChangesetsResult,
+	nextVersions: NextVersion[],
+	changesetDiff: ChangesetDiff | null,
+	releaseNotes: { changelog: string; packages: PackageReleaseNotes[] } | null,
 	inputs: { releaseBranch: string; targetBranch: string },
 ): string {
 	const emoji = getPhaseEmoji(phaseResult.phase);
@@ -59,13 +107,16 @@ function buildJobSummary(
 		{ key: "Phase", value: `${emoji} \`${phaseResult.phase}\`` },
 		{ key: "Description", value: description },
 		{ key: "Reason", value: phaseResult.reason },
-		{ key: "Should Continue", value: phaseResult.phase !== "none" ? "Yes" : "No" },
+		...(phaseResult.matchedRule ? [{ key: "Matched Rule", value: `\`${phaseResult.matchedRule}\`` }] : []),
+		{ key: "Should Continue", value: shouldContinue(phaseResult.phase) ? "Yes" : "No" },
 	]);
 
-	// Context table
+	// Context table (a matched release line overrides the configured branches)
+	const targetBranch = phaseResult.releaseLine?.targetBranch ?? inputs.targetBranch;
+	const releaseBranch = phaseResult.releaseLine?.releaseBranch ?? inputs.releaseBranch;
 	const contextEntries = [
-		{ key: "Target Branch", value: `\`${inputs.targetBranch}\`` },
-		{ key: "Release Branch", value: `\`${inputs.releaseBranch}\`` },
+		{ key: "Target Branch", value: `\`${targetBranch}\`` },
+		{ key: "Release Branch", value: `\`${releaseBranch}\`` },
 		{ key: "On Main Branch", value: phaseResult.isMainBranch ? `${STATE.good} Yes` : `${STATE.neutral} No` },
 		{
 			key: "On Release Branch",
@@ -77,10 +128,39 @@ function buildJobSummary(
 		},
 	];
 
+	if (phaseResult.releaseCommitSha) {
+		contextEntries.push({ key: "Release Commit", value: `\`${phaseResult.releaseCommitSha.substring(0, 7)}\`` });
+	}
+
+	if (phaseResult.matchedPattern) {
+		contextEntries.push({ key: "Matched Pattern", value: `\`${phaseResult.matchedPattern}\`` });
+	}
+
+	if (phaseResult.workflowRun) {
+		const run = phaseResult.workflowRun;
+		contextEntries.unshift({
+			key: "Triggering Run",
+			value: `${run.name} (\`${run.event}\`, ${run.conclusion || "no conclusion"}) at \`${run.headSha.substring(0, 7)}\``,
+		});
+	}
+
+	if (phaseResult.releaseLine) {
+		contextEntries.unshift({ key: "Release Line", value: `\`${phaseResult.releaseLine.name}\`` });
+	}
+
 	if ("mergedReleasePRNumber" in phaseResult && phaseResult.mergedReleasePRNumber) {
 		contextEntries.push({ key: "Merged PR", value: `#${phaseResult.mergedReleasePRNumber}` });
 	}
 
+	if (phaseResult.isMergeGroupEvent) {
+		contextEntries.push({
+			key: "Queued PRs",
+			value: phaseResult.queuedPRNumbers?.length
+				? phaseResult.queuedPRNumbers.map((n) => `#${n}`).join(", ")
+				: `${STATE.neutral} None detected`,
+		});
+	}
+
 	const contextTable = summaryWriter.keyValueTable(contextEntries);
 
 	// Changesets table
@@ -92,6 +172,13 @@ function buildJobSummary(
 		{ key: "Changeset Count", value: String(changesetResult.changesetCount) },
 	];
 
+	if (changesetResult.preState) {
+		changesetEntries.push(
+			{ key: "Pre Mode", value: `\`${changesetResult.preState.mode}\` (tag \`${changesetResult.preState.tag}\`)` },
+			{ key: "Unconsumed Changesets", value: String(changesetResult.unconsumedChangesetCount) },
+		);
+	}
+
 	if (changesetResult.releaseType) {
 		changesetEntries.push({
 			key: "Release Type",
@@ -99,6 +186,14 @@ function buildJobSummary(
 		});
 	}
 
+	if (changesetDiff) {
+		const ids = (list: string[]) => (list.length > 0 ? list.map((id) => `\`${id}\``).join(", ") : "None");
+		changesetEntries.push(
+			{ key: "Added Changesets", value: ids(changesetDiff.added) },
+			{ key: "Removed Changesets", value: ids(changesetDiff.removed) },
+		);
+	}
+
 	if (changesetResult.affectedPackages.length > 0) {
 		changesetEntries.push({
 			key: "Affected Packages",
@@ -106,32 +201,386 @@ function buildJobSummary(
 		});
 	}
 
+	// Bumps changed by fixed/linked groups, ignore or privatePackages in .changeset/config.json
+	const adjustments = [...new Set([...changesetResult.declaredBumps.keys(), ...changesetResult.packageBumps.keys()])]
+		.sort()
+		.filter(
+			(name) =>
+				changesetResult.packageSources.get(name) !== "dependent" &&
+				changesetResult.declaredBumps.get(name) !== changesetResult.packageBumps.get(name),
+		)
+		.map(
+			(name) =>
+				`\`${name}\` ${changesetResult.declaredBumps.get(name) ?? "none"} → ${changesetResult.packageBumps.get(name) ?? "not released"}`,
+		);
+
+	if (adjustments.length > 0) {
+		changesetEntries.push({ key: "Config Adjustments", value: adjustments.join(", ") });
+	}
+
+	const dependents = [...changesetResult.packageSources]
+		.filter(([, source]) => source === "dependent")
+		.map(([name]) => `\`${name}\` (${changesetResult.packageBumps.get(name)})`)
+		.sort();
+
+	if (dependents.length > 0) {
+		changesetEntries.push({ key: "Dependent Releases", value: dependents.join(", ") });
+	}
+
 	const changesetTable = summaryWriter.keyValueTable(changesetEntries);
 
+	// Changeset attribution table (with changeset-attribution)
+	const attributed = changesetResult.changesets.filter((changeset) => changeset.commit);
+	const attributionTable = summaryWriter.table(
+		["Changeset", "Packages", "Commit", "Pull Request", "Author"],
+		attributed.map((changeset) => [
+			`\`${changeset.id}\``,
+			changeset.releases.map((release) => `\`${release.name}\` ${release.type}`).join(", ") || "None",
+			`\`${changeset.commit?.substring(0, 7)}\``,
+			changeset.pullRequest ? `#${changeset.pullRequest}` : "",
+			changeset.author ? `@${changeset.author}` : "",
+		]),
+	);
+
+	// Next versions table
+	const nextVersionsTable = summaryWriter.table(
+		["Package", "Bump", "Current → Next"],
+		nextVersions.map((entry) => [`\`${entry.name}\``, entry.bump, `${entry.current} → ${entry.next}`]),
+	);
+
+	// Release notes preview (one collapsible changelog entry per package)
+	const releaseNotesContent = releaseNotes
+		? [
+				`Changelog entries as \`${releaseNotes.changelog}\` would write them (without commit, PR and author links):`,
+				...releaseNotes.packages.map((notes) =>
+					summaryWriter.details(
+						`<code>${notes.name}</code>${notes.version ? ` ${notes.version}` : ""}`,
+						renderReleaseNotes(notes),
+					),
+				),
+			].join("\n\n")
+		: "";
+
+	// Decision trace (collapsed by default)
+	const traceTable = summaryWriter.table(
+		["Step", "Matched", "Detail", "Inputs"],
+		phaseResult.decisionTrace.map((entry) => [
+			`\`${entry.step}\``,
+			entry.matched ? `${STATE.good} Yes` : `${STATE.neutral} No`,
+			entry.detail ?? "",
+			`\`${JSON.stringify(entry.inputs)}\``,
+		]),
+	);
+
 	// Build the full summary
 	return summaryWriter.build([
 		{ heading: `${emoji} Workflow Control`, content: phaseTable },
 		{ heading: "Git Context", level: 3, content: contextTable },
 		{ heading: "Changesets", level: 3, content: changesetTable },
+		...(attributed.length > 0
+			? [{ heading: "Changeset Attribution", level: 3 as const, content: attributionTable }]
+			: []),
+		...(nextVersions.length > 0 ? [{ heading: "Next Versions", level: 3 as const, content: nextVersionsTable }] : []),
+		...(releaseNotes && releaseNotes.packages.length > 0
+			? [{ heading: "Release Notes Preview", level: 3 as const, content: releaseNotesContent }]
+			: []),
+		{ content: summaryWriter.details(`Decision trace (${phaseResult.decisionTrace.length} steps)`, traceTable) },
+	]);
+}
+
+/**
+ * Report changeset parse diagnostics as annotations on the changeset files
+ */
+function reportChangesetDiagnostics(diagnostics: ChangesetDiagnostic[]): void {
+	for (const diagnostic of diagnostics) {
+		const properties = { title: "Changeset", file: `.changeset/${diagnostic.id}.md`, startLine: diagnostic.line };
+		if (diagnostic.severity === "error") {
+			logger.error(diagnostic.message, properties);
+		} else {
+			logger.warn(diagnostic.message, properties);
+		}
+	}
+}
+
+/**
+ * Validate every changeset file and fail when any has errors (`mode: lint-changesets`)
+ */
+async function lintChangesets(): Promise<void> {
+	const workspacePackages = hasChangesets() ? readWorkspacePackages() : new Map();
+	const changesetResult = parseChangesets({ packages: workspacePackages });
+	const errors = changesetResult.diagnostics.filter((diagnostic) => diagnostic.severity === "error");
+	const warnings = changesetResult.diagnostics.filter((diagnostic) => diagnostic.severity === "warning");
+
+	core.info("");
+	core.info(`${PHASE.test} Linted ${changesetResult.changesetCount} changeset(s)`);
+	reportChangesetDiagnostics(changesetResult.diagnostics);
+
+	core.setOutput("has_changesets", String(changesetResult.hasChangesets));
+	core.setOutput("changeset_count", String(changesetResult.changesetCount));
+
+	const overviewTable = summaryWriter.keyValueTable([
+		{ key: "Changesets Checked", value: String(changesetResult.changesetCount) },
+		{ key: "Errors", value: errors.length > 0 ? `${STATE.issue} ${errors.length}` : `${STATE.good} 0` },
+		{ key: "Warnings", value: warnings.length > 0 ? `${STATE.warning} ${warnings.length}` : `${STATE.good} 0` },
+	]);
+	const problemsTable = summaryWriter.table(
+		["File", "Line", "Severity", "Message"],
+		changesetResult.diagnostics.map((diagnostic) => [
+			`\`.changeset/${diagnostic.id}.md\``,
+			diagnostic.line ? String(diagnostic.line) : "",
+			diagnostic.severity,
+			diagnostic.message,
+		]),
+	);
+
+	await summaryWriter.write(
+		summaryWriter.build([
+			{ heading: `${PHASE.test} Changeset Lint`, content: overviewTable },
+			...(changesetResult.diagnostics.length > 0
+				? [{ heading: "Problems", level: 3 as const, content: problemsTable }]
+				: []),
+		]),
+	);
+
+	if (errors.length > 0) {
+		throw new Error(`Changeset lint found ${errors.length} error(s)`);
+	}
+
+	logger.success(warnings.length > 0 ? `Changesets are valid (${warnings.length} warning(s))` : "Changesets are valid");
+}
+
+/**
+ * Fail a pull request that changes publishable packages without a changeset (`mode: require-changeset`)
+ */
+async function requireChangeset(): Promise<void> {
+	const token = core.getInput("token");
+	const noChangesetLabel = core.getInput("no-changeset-label") || "no-changeset";
+	const ignore = core
+		.getInput("changeset-ignore")
+		.split(/[\n,]/)
+		.map((glob) => glob.trim())
+		.filter(Boolean);
+	const context = github.context;
+	const pullRequest = context.payload.pull_request;
+
+	if (!pullRequest) {
+		logger.skip(`Not a pull request (${context.eventName} event), skipping changeset check`);
+		return;
+	}
+
+	const labels = ((pullRequest.labels ?? []) as Array<{ name?: string }>).map((label) => label.name);
+	if (labels.includes(noChangesetLabel)) {
+		logger.success(`Pull request has the "${noChangesetLabel}" label, no changeset required`);
+		return;
+	}
+
+	// Files changed by the PR (pulls API with a token, local git from the merge base otherwise)
+	let files: ChangedFile[];
+	if (token) {
+		const octokit = github.getOctokit(token);
+		files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+			owner: context.repo.owner,
+			repo: context.repo.repo,
+			pull_number: pullRequest.number,
+			per_page: 100,
+		});
+	} else {
+		const range = getDiffRange(context);
+		if (!range) {
+			throw new Error("Pull request has no base and head commits to compare");
+		}
+		files = await listChangedFilesWithGit(range);
+	}
+
+	const workspacePackages = readWorkspacePackages();
+	const changesetResult = parseChangesets({ packages: workspacePackages });
+	const coverage = checkChangesetCoverage({
+		files,
+		changesets: changesetResult.changesets,
+		packages: workspacePackages,
+		config: readChangesetConfig(),
+		ignore,
+	});
+
+	core.info("");
+	core.info(
+		`${PHASE.test} ${files.length} changed file(s), ${coverage.packages.length} publishable package(s) touched`,
+	);
+	for (const pkg of coverage.packages) {
+		core.info(
+			pkg.changesets.length > 0
+				? `  ${STATE.good} ${pkg.name}: ${pkg.changesets.join(", ")}`
+				: `  ${STATE.issue} ${pkg.name}: no changeset`,
+		);
+	}
+
+	const overviewTable = summaryWriter.keyValueTable([
+		{ key: "Changed Files", value: String(files.length) },
+		...(coverage.ignoredFiles.length > 0
+			? [{ key: "Ignored Files", value: String(coverage.ignoredFiles.length) }]
+			: []),
+		{ key: "Packages Changed", value: String(coverage.packages.length) },
+		{
+			key: "Missing Changesets",
+			value: coverage.missing.length > 0 ? `${STATE.issue} ${coverage.missing.length}` : `${STATE.good} 0`,
+		},
 	]);
+	const packagesTable = summaryWriter.table(
+		["Package", "Changed Files", "Changesets"],
+		coverage.packages.map((pkg) => [
+			`\`${pkg.name}\``,
+			String(pkg.files.length),
+			pkg.changesets.length > 0 ? pkg.changesets.map((id) => `\`${id}\``).join(", ") : `${STATE.issue} missing`,
+		]),
+	);
+
+	await summaryWriter.write(
+		summaryWriter.build([
+			{ heading: `${PHASE.test} Changeset Check`, content: overviewTable },
+			...(coverage.packages.length > 0 ? [{ heading: "Packages", level: 3 as const, content: packagesTable }] : []),
+		]),
+	);
+
+	if (coverage.missing.length > 0) {
+		throw new Error(
+			`${coverage.missing.length} package(s) changed without a changeset: ${coverage.missing.join(", ")} (add one with \`changeset\` or apply the "${noChangesetLabel}" label)`,
+		);
+	}
+
+	logger.success("Every changed package has a changeset");
 }
 
 async function run(): Promise<void> {
 	try {
 		logger.start();
 
+		const mode = core.getInput("mode") || "detect";
+		if (mode !== "detect" && mode !== "lint-changesets" && mode !== "require-changeset") {
+			throw new Error(`Unknown mode "${mode}" (expected "detect", "lint-changesets" or "require-changeset")`);
+		}
+
+		if (mode === "lint-changesets") {
+			await lintChangesets();
+			return;
+		}
+
+		if (mode === "require-changeset") {
+			await requireChangeset();
+			return;
+		}
+
 		// Get inputs
 		const token = core.getInput("token");
 		const releaseBranch = core.getInput("release-branch") || "changeset-release/main";
 		const targetBranch = core.getInput("target-branch") || "main";
+		const releaseLines = parseReleaseLines(core.getInput("release-lines"));
+		const requestedPhase = core.getInput("requested-phase");
+		const releaseCommitPatterns = {
+			merge: parseCommitPatterns(core.getInput("release-merge-patterns"), "release-merge-patterns"),
+			version: parseCommitPatterns(core.getInput("release-version-patterns"), "release-version-patterns"),
+		};
+		const releasePRMatcher = parseReleasePRMatcher({
+			strategy: core.getInput("release-pr-strategy"),
+			labels: core.getInput("release-pr-labels"),
+			authors: core.getInput("release-pr-authors"),
+		});
+		const rulesFile = core.getInput("rules-file") || PHASE_RULES_FILE;
+		const phaseRules = loadPhaseRules(rulesFile);
+		const matrixExcludePrivate = core.getInput("matrix-exclude-private") === "true";
+		const diffChangesetsEnabled = core.getInput("diff-changesets") === "true";
+		const prCommentEnabled = core.getInput("pr-comment") === "true";
+		const attributionEnabled = core.getInput("changeset-attribution") === "true";
+		const majorGate = parseMajorGate({
+			label: core.getInput("major-approval-label"),
+			teams: core.getInput("major-approval-teams"),
+			packages: core.getInput("major-approval-packages"),
+		});
+		const changesetSource = core.getInput("changeset-source") || "local";
+		if (changesetSource !== "local" && changesetSource !== "api") {
+			throw new Error(`Invalid changeset-source "${changesetSource}" (expected "local" or "api")`);
+		}
+		if (changesetSource === "api" && !token) {
+			throw new Error('changeset-source "api" requires a token');
+		}
 
 		core.info(`Configuration:`);
 		core.info(`  Target branch: ${targetBranch}`);
 		core.info(`  Release branch: ${releaseBranch}`);
+		for (const line of releaseLines) {
+			core.info(`  Release line: ${line.target} -> ${line.release}`);
+		}
+		if (requestedPhase) {
+			core.info(`  Requested phase: ${requestedPhase}`);
+		}
+		for (const pattern of releaseCommitPatterns.merge) {
+			core.info(`  Release merge pattern: ${pattern}`);
+		}
+		for (const pattern of releaseCommitPatterns.version) {
+			core.info(`  Release version pattern: ${pattern}`);
+		}
+		core.info(`  Release PR strategy: ${releasePRMatcher.strategies.join(" + ")}`);
+		if (releasePRMatcher.labels.length > 0) {
+			core.info(`  Release PR labels: ${releasePRMatcher.labels.join(", ")}`);
+		}
+		if (releasePRMatcher.authors.length > 0) {
+			core.info(`  Release PR authors: ${releasePRMatcher.authors.join(", ")}`);
+		}
+		core.info(`  Phase rules: ${phaseRules.length} (${rulesFile})`);
+		if (majorGate) {
+			core.info(
+				`  Major approval: ${[majorGate.label && `label ${majorGate.label}`, ...majorGate.teams.map((team) => `@${team}`)].filter(Boolean).join(", ")}`,
+			);
+		}
+		core.info(`  Changeset source: ${changesetSource}`);
 		core.info(`  Has token: ${token ? "yes" : "no"}`);
 
 		const context = github.context;
 
+		// Parse changesets (pre mode state feeds into phase detection); the workspace
+		// is only read when there is something to release. The API source reads
+		// .changeset and the workspace at the commit detection runs against (the
+		// triggering run's head for workflow_run events) without a checkout.
+		let workspacePackages: Map<string, WorkspacePackage>;
+		let changesetResult: ParseChangesetsResult;
+		let changesetConfig: ChangesetConfig;
+
+		if (changesetSource === "api") {
+			const octokit = github.getOctokit(token);
+			const ref = resolveEventContext(context).context.sha;
+			const changesetFiles = await fetchChangesetFiles({ octokit, context, ref });
+			workspacePackages = [...changesetFiles.keys()].some(isChangesetFile)
+				? await fetchWorkspacePackages({ octokit, context, ref })
+				: new Map();
+			changesetResult = parseChangesetFiles(changesetFiles, workspacePackages);
+			changesetConfig = parseChangesetConfig(changesetFiles.get("config.json") ?? "{}");
+			core.info(
+				`Read ${changesetFiles.size} file(s) from .changeset and ${workspacePackages.size} workspace package(s) at ${ref} through the API`,
+			);
+		} else {
+			workspacePackages = hasChangesets() ? readWorkspacePackages() : new Map();
+			changesetResult = parseChangesets({ packages: workspacePackages });
+			changesetConfig = readChangesetConfig();
+		}
+
+		// Commit, pull request and author of each changeset (needs local git history)
+		if (attributionEnabled) {
+			if (changesetSource === "api") {
+				core.info('Changeset attribution needs a checkout, skipping with changeset-source "api"');
+			} else {
+				changesetResult.changesets = await attributeChangesets(changesetResult.changesets, {
+					context,
+					octokit: token ? github.getOctokit(token) : undefined,
+				});
+			}
+		}
+
+		// Changesets added or removed by this push or PR (compare API with a token, local git otherwise);
+		// the PR comment lists the added ones
+		const changesetDiff =
+			diffChangesetsEnabled || prCommentEnabled
+				? await diffChangesets({ context, octokit: token ? github.getOctokit(token) : undefined })
+				: null;
+
 		// Detect workflow phase
 		let phaseResult: PhaseDetectionResult | Omit<PhaseDetectionResult, "mergedReleasePRNumber">;
 
@@ -142,6 +591,13 @@ async function run(): Promise<void> {
 				targetBranch,
 				context,
 				octokit,
+				preState: changesetResult.preState,
+				releaseLines,
+				requestedPhase,
+				releaseCommitPatterns,
+				releasePRMatcher,
+				phaseRules,
+				hasChangesets: changesetResult.hasChangesets,
 			});
 		} else {
 			// Fallback to sync detection (no API calls)
@@ -150,15 +606,30 @@ async function run(): Promise<void> {
 				releaseBranch,
 				targetBranch,
 				context,
+				preState: changesetResult.preState,
+				releaseLines,
+				requestedPhase,
+				releaseCommitPatterns,
+				releasePRMatcher,
+				phaseRules,
+				hasChangesets: changesetResult.hasChangesets,
 			});
 		}
 
-		// Parse changesets
-		const changesetResult = parseChangesets();
+		// Hold back publishing of an unapproved major release
+		if (majorGate) {
+			phaseResult = await applyMajorGate(phaseResult, {
+				gate: majorGate,
+				context,
+				octokit: token ? github.getOctokit(token) : undefined,
+				packageBumps: changesetResult.packageBumps,
+				packages: workspacePackages,
+			});
+		}
 
 		// Log context
 		logger.context({
-			branch: context.ref.replace("refs/heads/", ""),
+			branch: phaseResult.workflowRun?.headBranch ?? context.ref.replace("refs/heads/", ""),
 			commitMessage: phaseResult.commitMessage,
 			isReleaseBranch: phaseResult.isReleaseBranch,
 			isMainBranch: phaseResult.isMainBranch,
@@ -178,6 +649,30 @@ async function run(): Promise<void> {
 		core.info("");
 		core.info(`${emoji} Detected phase: ${phaseResult.phase}`);
 		core.info(`${STATE.neutral} Reason: ${phaseResult.reason}`);
+		logger.decisionTrace(phaseResult.decisionTrace);
+
+		// Projected versions (as `changeset version` would produce them)
+		const nextVersions = computeNextVersions(changesetResult.packageBumps, workspacePackages, changesetResult.preState);
+
+		// Sticky release preview comment on the triggering PR (removed once the PR adds no changesets)
+		if (prCommentEnabled) {
+			const pullNumber = context.payload.pull_request?.number;
+			if (!pullNumber || !token) {
+				core.info("Release preview comment needs a pull request event and a token, skipping");
+			} else if (changesetDiff) {
+				const action = await upsertPreviewComment({
+					octokit: github.getOctokit(token),
+					context,
+					pullNumber,
+					body: buildPreviewComment({
+						changesets: changesetResult.changesets.filter((changeset) => changesetDiff.added.includes(changeset.id)),
+						packageBumps: changesetResult.packageBumps,
+						nextVersions,
+					}),
+				});
+				core.info(`Release preview comment: ${action}`);
+			}
+		}
 
 		// Log changeset info
 		if (changesetResult.hasChangesets) {
@@ -186,17 +681,35 @@ async function run(): Promise<void> {
 			if (changesetResult.releaseType) {
 				core.info(`${STATE.neutral} Release type: ${changesetResult.releaseType}`);
 			}
+			if (changesetResult.preState) {
+				core.info(
+					`${STATE.neutral} Pre mode: ${changesetResult.preState.mode} (tag: ${changesetResult.preState.tag}, ${changesetResult.unconsumedChangesetCount} unconsumed)`,
+				);
+			}
+			for (const entry of nextVersions) {
+				core.info(`  ${entry.name}: ${entry.current} → ${entry.next} (${entry.bump})`);
+			}
 		} else {
 			core.info("");
 			core.info(`${STATE.neutral} No changesets found`);
 		}
+		if (changesetDiff) {
+			core.info(
+				`${STATE.neutral} Changesets ${changesetDiff.base.slice(0, 7)}..${changesetDiff.head.slice(0, 7)} (${changesetDiff.source}): ${changesetDiff.added.length} added, ${changesetDiff.modified.length} modified, ${changesetDiff.removed.length} removed`,
+			);
+		}
+
+		reportChangesetDiagnostics(changesetResult.diagnostics);
 
 		// Set outputs
 		core.setOutput("phase", phaseResult.phase);
 		core.setOutput("has_changesets", String(changesetResult.hasChangesets));
 		core.setOutput("changeset_count", String(changesetResult.changesetCount));
+		core.setOutput("added_changesets", JSON.stringify(changesetDiff?.added ?? []));
+		core.setOutput("removed_changesets", JSON.stringify(changesetDiff?.removed ?? []));
 		core.setOutput("release_type", changesetResult.releaseType || "");
 		core.setOutput("is_release_commit", String(phaseResult.isReleaseCommit));
+		core.setOutput("release_commit_sha", phaseResult.releaseCommitSha || "");
 		core.setOutput("is_release_branch", String(phaseResult.isReleaseBranch));
 		core.setOutput("is_main_branch", String(phaseResult.isMainBranch));
 		core.setOutput(
@@ -205,16 +718,54 @@ async function run(): Promise<void> {
 				? String(phaseResult.mergedReleasePRNumber)
 				: "",
 		);
-		core.setOutput("should_continue", String(phaseResult.phase !== "none"));
+		core.setOutput("release_line", phaseResult.releaseLine?.name || "");
+		core.setOutput("pre_mode", String(phaseResult.isPreRelease));
+		core.setOutput("pre_tag", phaseResult.preTag || "");
+		core.setOutput("unconsumed_changeset_count", String(changesetResult.unconsumedChangesetCount));
+		core.setOutput("should_continue", String(shouldContinue(phaseResult.phase)));
 		core.setOutput("reason", phaseResult.reason);
+		core.setOutput("decision_trace", JSON.stringify(phaseResult.decisionTrace));
+		core.setOutput("result", JSON.stringify(buildResultOutput(phaseResult, changesetResult)));
+
+		// Per-package job matrix
+		const matrix = buildPackageMatrix(changesetResult.packageBumps, workspacePackages, {
+			excludePrivate: matrixExcludePrivate,
+			sources: changesetResult.packageSources,
+		});
+		core.setOutput("matrix", JSON.stringify(matrix));
+
+		core.setOutput(
+			"next_versions",
+			JSON.stringify(Object.fromEntries(nextVersions.map((entry) => [entry.name, entry.next]))),
+		);
+
+		// Release notes preview for reviewers before the release PR merges
+		const releaseNotes =
+			(phaseResult.phase === "validation" || phaseResult.phase === "branch-management") && changesetConfig.changelog
+				? {
+						changelog: changesetConfig.changelog,
+						packages: buildReleaseNotes({
+							changesets: changesetResult.changesets,
+							packageBumps: changesetResult.packageBumps,
+							packages: workspacePackages,
+							nextVersions,
+							preState: changesetResult.preState,
+						}),
+					}
+				: null;
 
 		// Write job summary
-		const summary = buildJobSummary(phaseResult, changesetResult, { releaseBranch, targetBranch });
+		const summary = buildJobSummary(phaseResult, changesetResult, nextVersions, changesetDiff, releaseNotes, {
+			releaseBranch,
+			targetBranch,
+		});
 		await summaryWriter.write(summary);
 
 		// Final status
 		if (phaseResult.phase === "none") {
 			logger.noAction(phaseResult.reason);
+		} else if (phaseResult.phase === "blocked") {
+			logger.warn(phaseResult.reason, { title: "Major release approval" });
 		} else {
 			logger.success(`Workflow should proceed with phase: ${phaseResult.phase}`);
 		}
@@ -0,0 +1,120 @@
+import * as path from "node:path";
+import * as core from "@actions/core";
+import { getExecOutput } from "@actions/exec";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import type { ParsedChangeset } from "./parse-changesets.js";
+
+/**
+ * Options for attributing changesets
+ */
+export interface AttributeChangesetsOptions {
+	/** GitHub context */
+	context: typeof githubContext;
+	/** Authenticated Octokit instance (without one only commits are attributed) */
+	octokit?: ReturnType<typeof getOctokit>;
+	/** Path to .changeset directory (default: .changeset) */
+	changesetPath?: string;
+}
+
+/**
+ * Finds the commit that added each changeset file with local git
+ *
+ * @remarks
+ * Changeset names can be reused once a release consumed the old file, so the
+ * most recent commit adding the file wins. A shallow clone reports every file
+ * as added by its oldest commit, so nothing is returned for one.
+ *
+ * @param changesetPath - Path to .changeset directory
+ * @returns Map of changeset ID to commit SHA
+ */
+export async function findChangesetCommits(changesetPath: string = ".changeset"): Promise<Map<string, string>> {
+	const { stdout: shallow } = await getExecOutput("git", ["rev-parse", "--is-shallow-repository"], { silent: true });
+	if (shallow.trim() === "true") {
+		core.warning("Cannot attribute changesets in a shallow clone, check out with fetch-depth: 0");
+		return new Map();
+	}
+
+	const { stdout } = await getExecOutput(
+		"git",
+		["log", "--diff-filter=A", "--format=commit %H", "--name-only", "--", changesetPath],
+		{ silent: true },
+	);
+
+	// Newest commits come first
+	const commits = new Map<string, string>();
+	let commit = "";
+	for (const line of stdout.split("\n").map((entry) => entry.trim())) {
+		if (line.startsWith("commit ")) {
+			commit = line.slice("commit ".length);
+		} else if (commit && line.endsWith(".md")) {
+			const id = path.posix.basename(line, ".md");
+			if (!commits.has(id)) commits.set(id, commit);
+		}
+	}
+
+	return commits;
+}
+
+/**
+ * Adds the commit, pull request and author to each changeset
+ *
+ * @remarks
+ * The commit comes from local git history (see {@link findChangesetCommits}),
+ * the pull request and its author's login from the pull requests GitHub
+ * associates with that commit (the merged one when there are several). Failures
+ * are logged as warnings and leave the affected changesets unattributed.
+ *
+ * @param changesets - Parsed changesets
+ * @param options - Context, Octokit and changeset path
+ * @returns Changesets with `commit`, `pullRequest` and `author` set where known
+ */
+export async function attributeChangesets(
+	changesets: ParsedChangeset[],
+	options: AttributeChangesetsOptions,
+): Promise<ParsedChangeset[]> {
+	if (changesets.length === 0) {
+		return changesets;
+	}
+
+	let commits: Map<string, string>;
+	try {
+		commits = await findChangesetCommits(options.changesetPath);
+	} catch (error) {
+		core.warning(`Failed to read changeset history: ${error instanceof Error ? error.message : String(error)}`);
+		return changesets;
+	}
+
+	const { octokit, context } = options;
+	const pullRequests = new Map<string, { number: number; author?: string } | null>();
+
+	if (octokit) {
+		for (const sha of new Set(changesets.flatMap((changeset) => commits.get(changeset.id) ?? []))) {
+			try {
+				const { data } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+					owner: context.repo.owner,
+					repo: context.repo.repo,
+					commit_sha: sha,
+				});
+				const pr = data.find((candidate) => candidate.merged_at) ?? data[0];
+				pullRequests.set(sha, pr ? { number: pr.number, author: pr.user?.login } : null);
+			} catch (error) {
+				core.warning(
+					`Failed to find the pull request of commit ${sha.substring(0, 7)}: ${error instanceof Error ? error.message : String(error)}`,
+				);
+			}
+		}
+	}
+
+	return changesets.map((changeset) => {
+		const commit = commits.get(changeset.id);
+		if (!commit) return changeset;
+
+		const pr = pullRequests.get(commit);
+		return {
+			...changeset,
+			commit,
+			...(pr ? { pullRequest: pr.number } : {}),
+			...(pr?.author ? { author: pr.author } : {}),
+		};
+	});
+}
@@ -0,0 +1,146 @@
+import type { ChangedFile } from "./changeset-diff.js";
+import { classifyChangesetFiles } from "./changeset-diff.js";
+import type { ChangesetConfig, ParsedChangeset } from "./parse-changesets.js";
+import { matchPattern } from "./release-lines.js";
+import type { WorkspacePackage } from "./workspace-packages.js";
+
+/**
+ * Changeset coverage of a package touched by a pull request
+ */
+export interface PackageCoverage {
+	/** Package name */
+	name: string;
+	/** Changed files of the package (relative to the repository root) */
+	files: string[];
+	/** IDs of changesets in the pull request that list the package */
+	changesets: string[];
+}
+
+/**
+ * Result of the require-changeset check
+ */
+export interface ChangesetCoverage {
+	/** Publishable packages with changed files, sorted by name */
+	packages: PackageCoverage[];
+	/** Packages without a changeset in the pull request */
+	missing: string[];
+	/** Changed files matching an ignore glob */
+	ignoredFiles: string[];
+}
+
+/**
+ * Options for the require-changeset check
+ */
+export interface ChangesetCoverageOptions {
+	/** Files changed by the pull request */
+	files: ChangedFile[];
+	/** Parsed changesets on disk (at the pull request head) */
+	changesets: ParsedChangeset[];
+	/** Workspace packages by name */
+	packages: Map<string, WorkspacePackage>;
+	/** Changesets configuration (ignored packages never need a changeset) */
+	config: ChangesetConfig;
+	/** Globs of files that never need a changeset */
+	ignore?: string[];
+	/** Path to the .changeset directory (default: .changeset) */
+	changesetPath?: string;
+}
+
+/**
+ * Checks that every publishable package touched by a pull request has a changeset
+ *
+ * @remarks
+ * Each changed file belongs to the workspace package with the longest matching
+ * directory. Private packages, packages ignored in `.changeset/config.json` and
+ * files matching an ignore glob are skipped. Only changesets added or modified
+ * by the pull request count; a `none` entry also covers a package.
+ *
+ * @param options - Changed files, changesets, packages and ignore settings
+ * @returns Coverage per touched package
+ */
+export function checkChangesetCoverage(options: ChangesetCoverageOptions): ChangesetCoverage {
+	const ignore = options.ignore ?? [];
+	const ignoredFiles: string[] = [];
+	const filesByPackage = new Map<string, string[]>();
+
+	const publishable = new Set(
+		[...options.packages.values()]
+			.filter((pkg) => !pkg.private && !options.config.ignore.some((pattern) => matchPattern(pattern, pkg.name)))
+			.map((pkg) => pkg.name),
+	);
+	// Deepest directories first, so nested packages win over their parents
+	const owners = [...options.packages.values()].sort((a, b) => b.path.length - a.path.length);
+
+	for (const file of options.files) {
+		if (ignore.some((glob) => matchGlob(glob, file.filename))) {
+			ignoredFiles.push(file.filename);
+			continue;
+		}
+
+		const owner = owners.find((pkg) => pkg.path === "." || file.filename.startsWith(`${pkg.path}/`));
+		if (!owner || !publishable.has(owner.name)) continue;
+
+		const list = filesByPackage.get(owner.name) ?? [];
+		list.push(file.filename);
+		filesByPackage.set(owner.name, list);
+	}
+
+	const { added, modified } = classifyChangesetFiles(options.files, options.changesetPath);
+	const changedIds = new Set([...added, ...modified]);
+	const prChangesets = options.changesets.filter((changeset) => changedIds.has(changeset.id));
+
+	const packages = [...filesByPackage]
+		.sort(([a], [b]) => a.localeCompare(b))
+		.map(([name, files]) => ({
+			name,
+			files,
+			changesets: prChangesets
+				.filter((changeset) => changeset.releases.some((release) => release.name === name))
+				.map((changeset) => changeset.id),
+		}));
+
+	return {
+		packages,
+		missing: packages.filter((pkg) => pkg.changesets.length === 0).map((pkg) => pkg.name),
+		ignoredFiles,
+	};
+}
+
+/**
+ * Matches a path against a glob
+ *
+ * @remarks
+ * Supports `**` (any number of directories), `*` (anything but `/`) and `?`.
+ * Globs without a `/` match the file name in any directory, like `.gitignore`.
+ *
+ * @param glob - Glob (e.g. "**\/*.md", "docs/**", "*.test.ts")
+ * @param filePath - Path relative to the repository root
+ * @returns Whether the path matches
+ */
+export function matchGlob(glob: string, filePath: string): boolean {
+	const pattern = glob.includes("/") ? glob.replace(/^\//, "") : `**/${glob}`;
+	let source = "";
+
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index];
+
+		if (char === "*" && pattern[index + 1] === "*") {
+			// "**/" matches zero or more directories, a trailing "**" everything below
+			if (pattern[index + 2] === "/") {
+				source += "(?:.*/)?";
+				index += 2;
+			} else {
+				source += ".*";
+				index += 1;
+			}
+		} else if (char === "*") {
+			source += "[^/]*";
+		} else if (char === "?") {
+			source += "[^/]";
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+
+	return new RegExp(`^${source}$`).test(filePath);
+}
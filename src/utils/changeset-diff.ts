@@ -0,0 +1,254 @@
+import * as core from "@actions/core";
+import { getExecOutput } from "@actions/exec";
+import type { getOctokit, context as githubContext } from "@actions/github";
+
+/**
+ * Commit range of the current push or pull request
+ */
+export interface DiffRange {
+	/** Base commit SHA */
+	base: string;
+	/** Head commit SHA */
+	head: string;
+}
+
+/**
+ * Changeset files changed between two commits
+ */
+export interface ChangesetDiff extends DiffRange {
+	/** How the changed files were listed */
+	source: "api" | "git";
+	/** IDs of changesets added in the range */
+	added: string[];
+	/** IDs of changesets modified in the range */
+	modified: string[];
+	/** IDs of changesets deleted in the range */
+	removed: string[];
+}
+
+/**
+ * A changed file as reported by the compare or pull request files API
+ */
+export interface ChangedFile {
+	/** Path of the file */
+	filename: string;
+	/** Change status ("added", "modified", "removed", "renamed", ...) */
+	status: string;
+	/** Previous path of a renamed file */
+	previous_filename?: string;
+}
+
+/** SHA GitHub sends as `before` when a branch is created */
+const NULL_SHA = /^0+$/;
+
+/**
+ * Gets the base and head commits of the current event
+ *
+ * @remarks
+ * - `pull_request`/`pull_request_target`: the PR base and head SHAs
+ * - `push`: `before` and `after` (none for a newly created branch)
+ * - `merge_group`: the merge group base and head SHAs
+ *
+ * @param context - GitHub context
+ * @returns Commit range, or null when the event has none
+ */
+export function getDiffRange(context: typeof githubContext): DiffRange | null {
+	const payload = context.payload;
+	let base: string | undefined;
+	let head: string | undefined;
+
+	if (context.eventName === "pull_request" || context.eventName === "pull_request_target") {
+		base = payload.pull_request?.base?.sha;
+		head = payload.pull_request?.head?.sha;
+	} else if (context.eventName === "push") {
+		base = payload.before;
+		head = payload.after ?? context.sha;
+	} else if (context.eventName === "merge_group") {
+		base = payload.merge_group?.base_sha;
+		head = payload.merge_group?.head_sha;
+	}
+
+	if (!base || !head || NULL_SHA.test(base)) {
+		return null;
+	}
+
+	return { base, head };
+}
+
+/**
+ * Lists changeset files changed between two commits with the GitHub API
+ *
+ * @remarks
+ * Pull requests use the pull request files API (up to 3000 files). Other
+ * events use the compare API, which lists at most 300 files, so changesets in
+ * a larger push may be missed.
+ *
+ * @param options - Octokit, context, commit range and changeset directory
+ * @returns Changeset diff
+ */
+export async function diffChangesetsWithApi(options: {
+	octokit: ReturnType<typeof getOctokit>;
+	context: typeof githubContext;
+	range: DiffRange;
+	changesetPath?: string;
+}): Promise<ChangesetDiff> {
+	const { octokit, context, range } = options;
+	const pullNumber = context.payload.pull_request?.number as number | undefined;
+	let files: ChangedFile[];
+
+	if (pullNumber) {
+		files = await octokit.paginate(octokit.rest.pulls.listFiles, {
+			owner: context.repo.owner,
+			repo: context.repo.repo,
+			pull_number: pullNumber,
+			per_page: 100,
+		});
+	} else {
+		const { data: comparison } = await octokit.rest.repos.compareCommits({
+			owner: context.repo.owner,
+			repo: context.repo.repo,
+			base: range.base,
+			head: range.head,
+		});
+		files = comparison.files ?? [];
+	}
+
+	return { ...range, source: "api", ...classifyChangesetFiles(files, options.changesetPath) };
+}
+
+/**
+ * Lists changeset files changed between two commits with local git
+ *
+ * @remarks
+ * Both commits and their merge base must be available locally (e.g.
+ * `actions/checkout` with `fetch-depth: 0`).
+ *
+ * @param range - Commit range
+ * @param changesetPath - Path to the .changeset directory (default: .changeset)
+ * @returns Changeset diff
+ */
+export async function diffChangesetsWithGit(
+	range: DiffRange,
+	changesetPath: string = ".changeset",
+): Promise<ChangesetDiff> {
+	const files = await listChangedFilesWithGit(range, [changesetPath]);
+
+	return { ...range, source: "git", ...classifyChangesetFiles(files, changesetPath) };
+}
+
+/**
+ * Lists files changed between two commits with local git
+ *
+ * @remarks
+ * Diffs `base...head`, i.e. head against the merge base, like the compare API.
+ * For a pull request the base is the base branch tip, so commits that landed
+ * there after the branch point are left out.
+ *
+ * @param range - Commit range
+ * @param paths - Limit the diff to these paths (default: whole repository)
+ * @returns Changed files (renames detected)
+ */
+export async function listChangedFilesWithGit(range: DiffRange, paths: string[] = []): Promise<ChangedFile[]> {
+	const args = ["diff", "--name-status", "-M", `${range.base}...${range.head}`, "--", ...paths];
+	const { stdout } = await getExecOutput("git", args, { silent: true });
+
+	return parseNameStatus(stdout);
+}
+
+/**
+ * Lists changeset files changed in the current push or pull request
+ *
+ * @remarks
+ * Uses the GitHub API when an Octokit instance is given, local git otherwise.
+ * Failures are logged as warnings.
+ *
+ * @param options - Context, optional Octokit and changeset directory
+ * @returns Changeset diff, or null when the event has no commit range or listing failed
+ */
+export async function diffChangesets(options: {
+	context: typeof githubContext;
+	octokit?: ReturnType<typeof getOctokit>;
+	changesetPath?: string;
+}): Promise<ChangesetDiff | null> {
+	const range = getDiffRange(options.context);
+
+	if (!range) {
+		core.info(`No commit range for ${options.context.eventName} event, skipping changeset diff`);
+		return null;
+	}
+
+	try {
+		return options.octokit
+			? await diffChangesetsWithApi({ ...options, octokit: options.octokit, range })
+			: await diffChangesetsWithGit(range, options.changesetPath);
+	} catch (error) {
+		core.warning(`Failed to diff changesets: ${error instanceof Error ? error.message : String(error)}`);
+		return null;
+	}
+}
+
+/**
+ * Sorts changed files into added, modified and removed changesets
+ *
+ * @remarks
+ * Only `.md` files directly in the changeset directory count (README.md excluded).
+ * A rename counts as removing the old changeset and adding the new one.
+ *
+ * @param files - Changed files
+ * @param changesetPath - Path to the .changeset directory (default: .changeset)
+ * @returns Changeset IDs by change type, sorted
+ */
+export function classifyChangesetFiles(
+	files: ChangedFile[],
+	changesetPath: string = ".changeset",
+): Pick<ChangesetDiff, "added" | "modified" | "removed"> {
+	const prefix = `${changesetPath.replace(/^\.\//, "").replace(/\/$/, "")}/`;
+	const toId = (filename: string | undefined): string | null => {
+		if (!filename?.startsWith(prefix)) return null;
+		const name = filename.slice(prefix.length);
+		if (name.includes("/") || !name.endsWith(".md") || name.toLowerCase() === "readme.md") return null;
+		return name.replace(/\.md$/, "");
+	};
+
+	const added = new Set<string>();
+	const modified = new Set<string>();
+	const removed = new Set<string>();
+
+	for (const file of files) {
+		const id = toId(file.filename);
+
+		if (file.status === "renamed") {
+			const previousId = toId(file.previous_filename);
+			if (previousId) removed.add(previousId);
+			if (id) added.add(id);
+		} else if (id) {
+			if (file.status === "added" || file.status === "copied") {
+				added.add(id);
+			} else if (file.status === "removed") {
+				removed.add(id);
+			} else {
+				modified.add(id);
+			}
+		}
+	}
+
+	return { added: [...added].sort(), modified: [...modified].sort(), removed: [...removed].sort() };
+}
+
+/**
+ * Converts `git diff --name-status` output to changed files
+ */
+function parseNameStatus(output: string): ChangedFile[] {
+	const statuses: Record<string, string> = { A: "added", C: "copied", D: "removed", M: "modified", R: "renamed" };
+
+	return output
+		.split("\n")
+		.filter((line) => line.trim())
+		.map((line) => {
+			const [code, first, second] = line.split("\t");
+			const status = statuses[code[0]] ?? "changed";
+			return status === "renamed" || status === "copied"
+				? { filename: second, status, previous_filename: first }
+				: { filename: first, status };
+		});
+}
@@ -0,0 +1,75 @@
+/**
+ * User-defined release commit message patterns
+ */
+export interface ReleaseCommitPatterns {
+	/** Patterns matching merges from the release branch (e.g. merge commit messages) */
+	merge: RegExp[];
+	/** Patterns matching version commits (e.g. "release: publish packages") */
+	version: RegExp[];
+}
+
+/**
+ * Parses a multiline input of regular expressions
+ *
+ * @remarks
+ * One pattern per line. Blank lines are ignored. A pattern may be written as
+ * `/source/flags` to pass flags; otherwise the whole line is the source.
+ *
+ * @example
+ * ```text
+ * ^release: publish packages
+ * /^chore\(release\): .+ \[skip ci\]$/i
+ * ```
+ *
+ * @param input - Raw input value
+ * @param inputName - Input name (used in error messages)
+ * @returns Compiled patterns
+ * @throws Error if a pattern is not a valid regular expression
+ */
+export function parseCommitPatterns(input: string, inputName: string): RegExp[] {
+	const patterns: RegExp[] = [];
+
+	for (const rawLine of input.split("\n")) {
+		const line = rawLine.trim();
+		if (!line) continue;
+
+		const literal = line.match(/^\/(.+)\/([a-z]*)$/);
+
+		try {
+			patterns.push(literal ? new RegExp(literal[1], literal[2]) : new RegExp(line));
+		} catch (error) {
+			throw new Error(
+				`Invalid pattern "${line}" in ${inputName}: ${error instanceof Error ? error.message : String(error)}`,
+			);
+		}
+	}
+
+	return patterns;
+}
+
+/**
+ * Builds the built-in release commit patterns for a release branch
+ *
+ * @param releaseBranch - The release branch name
+ * @param owner - Repository owner
+ * @returns Built-in merge and version patterns
+ */
+export function getDefaultCommitPatterns(releaseBranch: string, owner: string): ReleaseCommitPatterns {
+	const branch = escapeRegExp(releaseBranch);
+
+	return {
+		merge: [
+			new RegExp(escapeRegExp(`from ${owner}/${releaseBranch}`)),
+			new RegExp(escapeRegExp(`Merge branch '${releaseBranch}'`)),
+			new RegExp(`^(?=[\\s\\S]*Merge pull request)(?=[\\s\\S]*${branch})`),
+		],
+		version: [/chore: version packages/, /version packages/i, /^chore: release/],
+	};
+}
+
+/**
+ * Escapes a string for literal use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+	return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
@@ -1,5 +1,14 @@
 import * as core from "@actions/core";
 import type { getOctokit, context as githubContext } from "@actions/github";
+import type { ReleaseCommitPatterns } from "./commit-patterns.js";
+import { getDefaultCommitPatterns } from "./commit-patterns.js";
+import type { PreState } from "./parse-changesets.js";
+import type { PhaseRule, PhaseRuleFacts } from "./phase-rules.js";
+import { DEFAULT_PHASE_RULES, evaluatePhaseRules, formatPhaseRuleReason } from "./phase-rules.js";
+import type { ReleaseLine, ResolvedReleaseLine } from "./release-lines.js";
+import { resolveReleaseLine } from "./release-lines.js";
+import type { ReleasePRCandidate, ReleasePRMatcher } from "./release-pr-matcher.js";
+import { DEFAULT_RELEASE_PR_MATCHER, isReleasePR } from "./release-pr-matcher.js";
 
 /**
  * Workflow phases for release management
@@ -8,15 +17,25 @@ export type WorkflowPhase =
 	| "branch-management" // Phase 1: Create/update release branch
 	| "validation" // Phase 2: Validate release branch
 	| "publishing" // Phase 3: Publish packages
+	| "pre-release-publishing" // Phase 3b: Publish pre-release packages (changesets pre mode)
 	| "close-issues" // Phase 3a: Close linked issues on PR merge
+	| "blocked" // Publishing held back until a major release is approved
 	| "none"; // No action needed
 
+/**
+ * A detected phase: a built-in workflow phase or a custom phase from the rules file
+ */
+export type PhaseName = WorkflowPhase | (string & {});
+
 /**
  * Result of workflow phase detection
  */
 export interface PhaseDetectionResult {
 	/** The detected phase to run */
-	phase: WorkflowPhase;
+	phase: PhaseName;
+
+	/** Name of the phase rule that selected the phase (unset for overrides and when no rule matched) */
+	matchedRule?: string;
 
 	/** Human-readable reason for the detection */
 	reason: string;
@@ -30,6 +49,12 @@ export interface PhaseDetectionResult {
 	/** Whether this is a release commit (merged from release PR) */
 	isReleaseCommit: boolean;
 
+	/** SHA of the release commit within the push (may differ from the head commit) */
+	releaseCommitSha?: string;
+
+	/** Commit message pattern that identified the release commit (message fallback only) */
+	matchedPattern?: string;
+
 	/** PR number if a merged release PR was detected */
 	mergedReleasePRNumber?: number;
 
@@ -44,6 +69,64 @@ export interface PhaseDetectionResult {
 
 	/** Commit message (truncated) */
 	commitMessage: string;
+
+	/** Whether changesets pre mode is active */
+	isPreRelease: boolean;
+
+	/** Pre-release tag (e.g. "next") when pre mode is active */
+	preTag?: string;
+
+	/** Release line the current ref belongs to (only when release lines are configured) */
+	releaseLine?: ResolvedReleaseLine;
+
+	/** Whether this is a merge_group (merge queue) event */
+	isMergeGroupEvent: boolean;
+
+	/** PR numbers queued in the merge group (for merge_group events) */
+	queuedPRNumbers?: number[];
+
+	/** Triggering workflow run (for workflow_run events) */
+	workflowRun?: WorkflowRunInfo;
+
+	/** Every check and rule evaluated, in order */
+	decisionTrace: DecisionTraceEntry[];
+}
+
+/**
+ * A check or rule evaluated during phase detection
+ */
+export interface DecisionTraceEntry {
+	/** Step name (e.g. "release-commit", "rule target-branch-push") */
+	step: string;
+
+	/** Whether the step matched */
+	matched: boolean;
+
+	/** Inputs the step looked at */
+	inputs: Record<string, unknown>;
+
+	/** How the outcome was reached (e.g. API result, fallback used) */
+	detail?: string;
+}
+
+/**
+ * Details of the workflow run that triggered a workflow_run event
+ */
+export interface WorkflowRunInfo {
+	/** Name of the triggering workflow */
+	name: string;
+
+	/** Event that triggered the triggering run (e.g. push, pull_request) */
+	event: string;
+
+	/** Conclusion of the triggering run (e.g. success, failure) */
+	conclusion: string;
+
+	/** Branch the triggering run ran on */
+	headBranch: string;
+
+	/** Commit SHA the triggering run ran on */
+	headSha: string;
 }
 
 /**
@@ -61,6 +144,33 @@ export interface PhaseDetectionOptions {
 
 	/** Authenticated Octokit instance */
 	octokit: ReturnType<typeof getOctokit>;
+
+	/** Changesets pre mode state from `.changeset/pre.json` (if any) */
+	preState?: PreState | null;
+
+	/**
+	 * Release lines mapping target branch patterns to release branch patterns.
+	 * When set, the matched line overrides `releaseBranch` and `targetBranch`.
+	 */
+	releaseLines?: ReleaseLine[];
+
+	/**
+	 * Phase requested for a workflow_dispatch run (default: the `phase` dispatch input).
+	 * Ignored for other events.
+	 */
+	requestedPhase?: string;
+
+	/** User-defined release commit message patterns (in addition to the built-in ones) */
+	releaseCommitPatterns?: Partial<ReleaseCommitPatterns>;
+
+	/** How release PRs are identified (default: by head branch) */
+	releasePRMatcher?: ReleasePRMatcher;
+
+	/** Phase rules in priority order (default: the built-in rules) */
+	phaseRules?: readonly PhaseRule[];
+
+	/** Whether changeset files are present (for the `hasChangesets` rule condition) */
+	hasChangesets?: boolean;
 }
 
 /**
@@ -70,29 +180,48 @@ export interface PhaseDetectionOptions {
  * Phase detection logic:
  * - **Phase 3a (close-issues)**: PR merge event where release PR was merged
  * - **Phase 3 (publishing)**: Push to main that came from a merged release PR
- * - **Phase 2 (validation)**: Push to release branch
+ * - **Phase 3b (pre-release-publishing)**: Same as Phase 3, while changesets pre mode is active
+ * - **Phase 2 (validation)**: Push to release branch, open release PR, or merge queue containing the release PR
  * - **Phase 1 (branch-management)**: Push to main (non-release commit)
  * - **none**: Any other scenario
  *
+ * The phases are picked by the first matching rule of `options.phaseRules`
+ * (see {@link DEFAULT_PHASE_RULES} for the built-in rules above), so a rules
+ * file can reorder them or map conditions to custom phases.
+ *
+ * For workflow_dispatch runs a requested phase replaces the detected one,
+ * provided it is legal for the current ref (see {@link applyRequestedPhase}).
+ *
+ * For workflow_run events detection runs against the triggering run's branch,
+ * SHA and event instead (see {@link resolveEventContext}), and only when the
+ * triggering run succeeded.
+ *
  * @param options - Phase detection options
  * @returns Detection result with phase and metadata
+ * @throws Error if a requested phase is not legal for the current ref
  */
 export async function detectWorkflowPhase(options: PhaseDetectionOptions): Promise<PhaseDetectionResult> {
-	const { releaseBranch, targetBranch, context, octokit } = options;
+	const { octokit, preState, releasePRMatcher = DEFAULT_RELEASE_PR_MATCHER } = options;
+	const { context, workflowRun } = resolveEventContext(options.context);
+	const { releaseBranch, targetBranch, releaseLine } = resolveBranches({ ...options, context });
 
 	// Extract context info
 	const commitMessage = context.payload.head_commit?.message || "";
 	const isReleaseBranch = context.ref === `refs/heads/${releaseBranch}`;
 	const isMainBranch = context.ref === `refs/heads/${targetBranch}`;
+	const isPreRelease = preState?.mode === "pre";
 
 	// Detect PR merge event (for pull_request trigger)
 	const isPullRequestEvent = context.eventName === "pull_request";
 	const pullRequest = context.payload.pull_request as
-		| { merged?: boolean; head?: { ref: string }; base?: { ref: string }; number: number }
+		| (ReleasePRCandidate & { merged?: boolean; number: number })
 		| undefined;
 	const isPRMerged = isPullRequestEvent && pullRequest?.merged === true;
-	const isReleasePRMerged =
-		isPRMerged && pullRequest?.head?.ref === releaseBranch && pullRequest?.base?.ref === targetBranch;
+	const isReleasePRMerged = isPRMerged && isReleasePR(pullRequest, releasePRMatcher, { releaseBranch, targetBranch });
+
+	// Detect merge queue runs (for merge_group trigger)
+	const isMergeGroupEvent = context.eventName === "merge_group";
+	const mergeGroup = getMergeGroup(context);
 
 	// Initialize result
 	const result: PhaseDetectionResult = {
@@ -105,79 +234,622 @@ export async function detectWorkflowPhase(options: PhaseDetectionOptions): Promi
 		isPRMerged,
 		isReleasePRMerged,
 		commitMessage: commitMessage.substring(0, 100) + (commitMessage.length > 100 ? "..." : ""),
+		isPreRelease,
+		preTag: isPreRelease ? preState?.tag : undefined,
+		releaseLine,
+		isMergeGroupEvent,
+		workflowRun,
+		decisionTrace: [],
 	};
 
-	// Detect if this is an open PR from release branch to target branch
+	// Detect if this is an open release PR into the target branch
 	const isReleasePROpen =
-		isPullRequestEvent &&
-		!isPRMerged &&
-		pullRequest?.head?.ref === releaseBranch &&
-		pullRequest?.base?.ref === targetBranch;
+		isPullRequestEvent && !isPRMerged && isReleasePR(pullRequest, releasePRMatcher, { releaseBranch, targetBranch });
+
+	traceEventContext(result, { context, releaseBranch, targetBranch, pullRequest, releasePRMatcher });
+
+	// Chained workflows only continue from a successful triggering run
+	if (workflowRun && workflowRun.conclusion !== "success") {
+		result.reason = `Triggering workflow "${workflowRun.name}" concluded with ${workflowRun.conclusion || "no conclusion"}`;
+		return result;
+	}
 
-	// Phase 3a: Close linked issues (on release PR merge via pull_request event)
+	// Release PR merged via pull_request event
 	if (isReleasePRMerged && pullRequest) {
-		result.phase = "close-issues";
-		result.reason = `Release PR #${pullRequest.number} merged via pull_request event`;
 		result.mergedReleasePRNumber = pullRequest.number;
 		result.isReleaseCommit = true;
-		return result;
 	}
 
-	// Phase 2a: Pre-publish validation (on open PR from release branch to main)
-	if (isReleasePROpen && pullRequest) {
-		result.phase = "validation";
-		result.reason = `Open PR #${pullRequest.number} from ${releaseBranch} to ${targetBranch}`;
-		return result;
+	// Merge queue for the target branch: look for the release PR among the queued PRs
+	let queuedReleasePRNumber: number | undefined;
+	const isTargetMergeQueue = isMergeGroupEvent && !!mergeGroup && mergeGroup.baseRef === `refs/heads/${targetBranch}`;
+
+	if (isTargetMergeQueue && mergeGroup) {
+		const queued = await detectQueuedPRs({
+			octokit,
+			context,
+			mergeGroup,
+			releaseBranch,
+			targetBranch,
+			releasePRMatcher,
+		});
+		result.queuedPRNumbers = queued.prNumbers;
+		queuedReleasePRNumber = queued.releasePRNumber;
+
+		result.decisionTrace.push({
+			step: "merge-queue",
+			matched: queuedReleasePRNumber !== undefined,
+			inputs: { baseRef: mergeGroup.baseRef, headRef: mergeGroup.headRef, queuedPRNumbers: queued.prNumbers },
+			detail: queued.error
+				? `API failed (${queued.error})`
+				: queuedReleasePRNumber !== undefined
+					? `Release PR #${queuedReleasePRNumber} found via API`
+					: "No queued PR is a release PR",
+		});
 	}
 
-	// Detect if this push is from a merged release PR (for push trigger)
-	let mergedReleasePR: { number: number } | undefined;
+	// Manual runs may request a specific phase
+	const requestedPhase = getRequestedPhase(context, options.requestedPhase);
 
-	if (isMainBranch && context.eventName === "push") {
+	// Detect if this push is from a merged release PR (for push trigger or a manual run)
+	let mergedReleasePR: { number: number; headRef: string } | undefined;
+
+	if (isMainBranch && (context.eventName === "push" || requestedPhase)) {
 		const releaseCommitDetection = await detectReleaseCommit({
 			context,
 			octokit,
 			releaseBranch,
 			targetBranch,
 			commitMessage,
+			releaseCommitPatterns: options.releaseCommitPatterns,
+			releasePRMatcher,
 		});
 
 		result.isReleaseCommit = releaseCommitDetection.isReleaseCommit;
+		result.releaseCommitSha = releaseCommitDetection.commitSha;
+		result.matchedPattern = releaseCommitDetection.matchedPattern;
 		mergedReleasePR = releaseCommitDetection.mergedPR;
 
 		if (mergedReleasePR) {
 			result.mergedReleasePRNumber = mergedReleasePR.number;
 		}
-	}
 
-	// Phase 3: Release Publishing (on merge to main with version commit)
-	if (isMainBranch && result.isReleaseCommit) {
-		result.phase = "publishing";
-		result.reason = mergedReleasePR
-			? `Merged release PR #${mergedReleasePR.number} from ${releaseBranch}`
-			: `Release commit detected on ${targetBranch}`;
-		return result;
+		result.decisionTrace.push({
+			step: "release-commit",
+			matched: result.isReleaseCommit,
+			inputs: {
+				sha: context.sha,
+				commitsChecked: releaseCommitDetection.commitsChecked,
+				mergedPRNumber: mergedReleasePR?.number ?? null,
+				releaseCommitSha: result.releaseCommitSha ?? null,
+			},
+			detail: releaseCommitDetection.apiError
+				? `API failed (${releaseCommitDetection.apiError}), used commit message fallback${result.matchedPattern ? ` (matched ${result.matchedPattern})` : ""}`
+				: mergedReleasePR
+					? `Merged release PR #${mergedReleasePR.number} found via API`
+					: "No merged release PR found via API",
+		});
 	}
 
-	// Phase 2: Release Validation (on release branch)
-	if (isReleaseBranch) {
-		result.phase = "validation";
-		result.reason = `Push to release branch ${releaseBranch}`;
-		return result;
+	// Manual override (workflow_dispatch with a requested phase)
+	if (requestedPhase) {
+		result.decisionTrace.push({ step: "requested-phase", matched: true, inputs: { requestedPhase } });
+		return applyRequestedPhase(result, requestedPhase, { releaseBranch, targetBranch, sha: context.sha });
 	}
 
-	// Phase 1: Release Branch Management (on main branch, non-release commit)
-	if (isMainBranch && !result.isReleaseCommit) {
-		result.phase = "branch-management";
-		result.reason = `Push to ${targetBranch} (not a release commit)`;
+	// Pick the phase from the first matching rule
+	const matched = applyPhaseRules(result, options.phaseRules ?? DEFAULT_PHASE_RULES, {
+		facts: {
+			event: context.eventName,
+			ref: context.ref,
+			labels: getLabelNames(pullRequest),
+			hasChangesets: options.hasChangesets ?? false,
+			releaseCommit: result.isReleaseCommit,
+			branch: isMainBranch ? "target" : isReleaseBranch ? "release" : undefined,
+			releasePR: isReleasePRMerged
+				? "merged"
+				: isReleasePROpen
+					? "open"
+					: queuedReleasePRNumber !== undefined
+						? "queued"
+						: undefined,
+			preRelease: isPreRelease,
+		},
+		values: {
+			pr: pullRequest?.number ?? queuedReleasePRNumber,
+			headRef: pullRequest?.head?.ref,
+			targetBranch,
+			releaseBranch,
+			event: context.eventName,
+			ref: context.ref.replace(/^refs\/heads\//, ""),
+			preTag: result.preTag,
+			releaseCommit: describeReleaseCommit(result, { mergedReleasePR, targetBranch, sha: context.sha }),
+		},
+	});
+
+	if (matched) {
 		return result;
 	}
 
 	// No action needed for other branches/scenarios
-	result.reason = `Not on ${targetBranch} or ${releaseBranch} branch`;
+	result.reason = isTargetMergeQueue
+		? `Merge queue for ${targetBranch} does not contain a release PR`
+		: `Not on ${targetBranch} or ${releaseBranch} branch`;
+	return result;
+}
+
+/**
+ * Resolves the context detection runs against
+ *
+ * @remarks
+ * For workflow_run events, `context.ref` and `context.sha` point at the default
+ * branch rather than the triggering run. The returned context instead carries
+ * the triggering run's branch, SHA, event and head commit, plus its first
+ * associated pull request for pull_request-triggered runs. Other events are
+ * returned unchanged.
+ *
+ * @param context - GitHub context
+ * @returns Effective context and the triggering run details (for workflow_run events)
+ */
+export function resolveEventContext(context: typeof githubContext): {
+	context: typeof githubContext;
+	workflowRun?: WorkflowRunInfo;
+} {
+	const run = context.payload.workflow_run as
+		| {
+				name?: string;
+				event?: string;
+				conclusion?: string | null;
+				head_branch?: string | null;
+				head_sha?: string;
+				head_commit?: { message?: string } | null;
+				pull_requests?: Array<{ number: number; head: { ref: string }; base: { ref: string } }>;
+		  }
+		| undefined;
+
+	if (context.eventName !== "workflow_run" || !run?.head_sha) {
+		return { context };
+	}
+
+	const workflowRun: WorkflowRunInfo = {
+		name: run.name ?? "",
+		event: run.event ?? "",
+		conclusion: run.conclusion ?? "",
+		headBranch: run.head_branch ?? "",
+		headSha: run.head_sha,
+	};
+
+	const pullRequest = workflowRun.event === "pull_request" ? run.pull_requests?.[0] : undefined;
+
+	// Context is a class instance, so carry repo and issue over explicitly (they are prototype getters)
+	const effectiveContext = {
+		...context,
+		repo: context.repo,
+		issue: context.issue,
+		eventName: workflowRun.event,
+		ref: `refs/heads/${workflowRun.headBranch}`,
+		sha: workflowRun.headSha,
+		payload: {
+			...context.payload,
+			head_commit: run.head_commit ?? undefined,
+			pull_request: pullRequest ? { ...pullRequest, merged: false } : undefined,
+		},
+	} as typeof githubContext;
+
+	return { context: effectiveContext, workflowRun };
+}
+
+/**
+ * Resolves the effective release and target branches for the current ref
+ *
+ * @remarks
+ * Without release lines the configured branches are used as-is. With release
+ * lines, the pushed branch (or the PR base and head for pull_request events,
+ * or the queue base for merge_group events) selects the matching line. When no line matches, the configured branches
+ * are kept so detection falls through to `none` as before.
+ *
+ * @param options - Detection options with configured branches and release lines
+ * @returns Effective branches and the matched release line (if any)
+ */
+function resolveBranches(options: {
+	releaseBranch: string;
+	targetBranch: string;
+	context: typeof githubContext;
+	releaseLines?: ReleaseLine[];
+}): { releaseBranch: string; targetBranch: string; releaseLine?: ResolvedReleaseLine } {
+	const { releaseBranch, targetBranch, context, releaseLines } = options;
+
+	if (!releaseLines || releaseLines.length === 0) {
+		return { releaseBranch, targetBranch };
+	}
+
+	const pullRequest = context.payload.pull_request as { head?: { ref: string }; base?: { ref: string } } | undefined;
+	const mergeGroupBase = getMergeGroup(context)?.baseRef.replace("refs/heads/", "");
+	const branch = context.ref.startsWith("refs/heads/") ? context.ref.slice("refs/heads/".length) : undefined;
+
+	const releaseLine = resolveReleaseLine(releaseLines, {
+		target: pullRequest?.base?.ref ?? mergeGroupBase ?? branch,
+		release: pullRequest?.head?.ref ?? branch,
+	});
+
+	if (!releaseLine) {
+		return { releaseBranch, targetBranch };
+	}
+
+	return { releaseBranch: releaseLine.releaseBranch, targetBranch: releaseLine.targetBranch, releaseLine };
+}
+
+/**
+ * Phases a workflow_dispatch run may request ("blocked" is only set by the major-bump gate)
+ */
+type RequestablePhase = Exclude<WorkflowPhase, "blocked">;
+
+/**
+ * All requestable workflow phases
+ */
+const WORKFLOW_PHASES: readonly RequestablePhase[] = [
+	"branch-management",
+	"validation",
+	"publishing",
+	"pre-release-publishing",
+	"close-issues",
+	"none",
+];
+
+/**
+ * Gets the phase requested for a workflow_dispatch run
+ *
+ * @param context - GitHub context
+ * @param requestedPhase - Explicitly requested phase (falls back to the `phase` dispatch input)
+ * @returns The requested phase, or undefined for other events or when none was requested
+ */
+function getRequestedPhase(context: typeof githubContext, requestedPhase?: string): string | undefined {
+	if (context.eventName !== "workflow_dispatch") {
+		return undefined;
+	}
+
+	const inputs = context.payload.inputs as Record<string, unknown> | undefined;
+	const phase = requestedPhase || (typeof inputs?.phase === "string" ? inputs.phase : "");
+
+	return phase.trim() || undefined;
+}
+
+/**
+ * Applies a manually requested phase after checking it is legal for the current ref
+ *
+ * @remarks
+ * Guardrails:
+ * - **branch-management**: on the target branch, not at a release commit
+ * - **validation**: on the release branch
+ * - **publishing / pre-release-publishing**: on the target branch at a release commit,
+ *   with the flavor matching the changesets pre mode
+ * - **close-issues**: on the target branch at a commit from a merged release PR
+ * - **none**: always allowed
+ *
+ * @param result - Detection result computed for the current ref
+ * @param requestedPhase - Phase requested for the run
+ * @param branches - Effective branches and the current commit SHA
+ * @returns The result with the requested phase and a reason noting the override
+ * @throws Error if the phase is unknown or not legal for the current ref
+ */
+function applyRequestedPhase<T extends Omit<PhaseDetectionResult, "mergedReleasePRNumber">>(
+	result: T,
+	requestedPhase: string,
+	branches: { releaseBranch: string; targetBranch: string; sha: string },
+): T {
+	const { releaseBranch, targetBranch, sha } = branches;
+
+	if (!WORKFLOW_PHASES.includes(requestedPhase as RequestablePhase)) {
+		throw new Error(
+			`Requested phase "${requestedPhase}" is not a known phase (expected one of: ${WORKFLOW_PHASES.join(", ")})`,
+		);
+	}
+
+	const phase = requestedPhase as RequestablePhase;
+	const prefix = `Requested phase "${phase}" is not allowed`;
+	let detail: string;
+
+	switch (phase) {
+		case "branch-management":
+			if (!result.isMainBranch) {
+				throw new Error(`${prefix}: run it on ${targetBranch}`);
+			}
+			if (result.isReleaseCommit) {
+				throw new Error(`${prefix}: ${sha} on ${targetBranch} is a release commit`);
+			}
+			detail = `on ${targetBranch}`;
+			break;
+		case "validation":
+			if (!result.isReleaseBranch) {
+				throw new Error(`${prefix}: run it on ${releaseBranch}`);
+			}
+			detail = `on ${releaseBranch}`;
+			break;
+		case "publishing":
+		case "pre-release-publishing":
+			if (!result.isMainBranch) {
+				throw new Error(`${prefix}: run it on ${targetBranch}`);
+			}
+			if (!result.isReleaseCommit) {
+				throw new Error(`${prefix}: ${sha} on ${targetBranch} is not a release commit`);
+			}
+			if (phase === "publishing" && result.isPreRelease) {
+				throw new Error(
+					`${prefix}: changesets pre mode is active (tag "${result.preTag}"), request "pre-release-publishing" instead`,
+				);
+			}
+			if (phase === "pre-release-publishing" && !result.isPreRelease) {
+				throw new Error(`${prefix}: changesets pre mode is not active, request "publishing" instead`);
+			}
+			detail = `at release commit ${sha} on ${targetBranch}`;
+			break;
+		case "close-issues":
+			if (!result.isMainBranch || !("mergedReleasePRNumber" in result) || !result.mergedReleasePRNumber) {
+				throw new Error(`${prefix}: no merged release PR found for ${sha} on ${targetBranch}`);
+			}
+			detail = `for release PR #${result.mergedReleasePRNumber}`;
+			break;
+		case "none":
+			detail = "(no release action)";
+			break;
+	}
+
+	result.phase = phase;
+	result.reason = `Manual override via workflow_dispatch: ${phase} ${detail}`;
 	return result;
 }
 
+/**
+ * Records the event context checks (triggering run, branches, release PR) in the decision trace
+ *
+ * @param result - Detection result to add trace entries to
+ * @param inputs - Effective context, branches, event pull request and release PR matcher
+ */
+function traceEventContext(
+	result: Omit<PhaseDetectionResult, "mergedReleasePRNumber">,
+	inputs: {
+		context: typeof githubContext;
+		releaseBranch: string;
+		targetBranch: string;
+		pullRequest?: ReleasePRCandidate & { merged?: boolean; number: number };
+		releasePRMatcher: ReleasePRMatcher;
+	},
+): void {
+	const { context, releaseBranch, targetBranch, pullRequest, releasePRMatcher } = inputs;
+	const { workflowRun } = result;
+
+	if (workflowRun) {
+		result.decisionTrace.push({
+			step: "workflow-run",
+			matched: workflowRun.conclusion === "success",
+			inputs: { ...workflowRun },
+			detail: `Triggering run concluded with ${workflowRun.conclusion || "no conclusion"}`,
+		});
+	}
+
+	result.decisionTrace.push({
+		step: "branches",
+		matched: result.isMainBranch || result.isReleaseBranch,
+		inputs: {
+			event: context.eventName,
+			ref: context.ref,
+			targetBranch,
+			releaseBranch,
+			releaseLine: result.releaseLine?.name ?? null,
+		},
+		detail: result.isMainBranch ? "On target branch" : result.isReleaseBranch ? "On release branch" : "On another ref",
+	});
+
+	if (result.isPullRequestEvent) {
+		const isReleasePRMatch = isReleasePR(pullRequest, releasePRMatcher, { releaseBranch, targetBranch });
+		result.decisionTrace.push({
+			step: "release-pr",
+			matched: isReleasePRMatch,
+			inputs: {
+				number: pullRequest?.number ?? null,
+				head: pullRequest?.head?.ref ?? null,
+				base: pullRequest?.base?.ref ?? null,
+				merged: result.isPRMerged,
+				labels: getLabelNames(pullRequest),
+				author: pullRequest?.user?.login ?? null,
+				strategies: releasePRMatcher.strategies,
+			},
+			detail: isReleasePRMatch
+				? `${result.isPRMerged ? "Merged" : "Open"} release PR`
+				: `Not a release PR (matched by ${releasePRMatcher.strategies.join(" + ")})`,
+		});
+	}
+}
+
+/**
+ * Applies the first matching phase rule to the result
+ *
+ * @param result - Detection result to update
+ * @param rules - Rules in priority order
+ * @param inputs - Facts to evaluate the rules against and placeholder values for the reason
+ * @returns Whether a rule matched
+ */
+function applyPhaseRules(
+	result: Omit<PhaseDetectionResult, "mergedReleasePRNumber">,
+	rules: readonly PhaseRule[],
+	inputs: { facts: PhaseRuleFacts; values: Record<string, string | number | undefined> },
+): boolean {
+	const { rule, evaluations } = evaluatePhaseRules(rules, inputs.facts);
+
+	for (const evaluation of evaluations) {
+		result.decisionTrace.push({
+			step: `rule ${evaluation.rule.name}`,
+			matched: evaluation.matched,
+			inputs: evaluation.facts,
+			detail: `${JSON.stringify(evaluation.rule.when)} -> ${evaluation.rule.phase}`,
+		});
+	}
+
+	if (!rule) {
+		return false;
+	}
+
+	result.phase = rule.phase;
+	result.reason = formatPhaseRuleReason(rule, inputs.values);
+	result.matchedRule = rule.name;
+	return true;
+}
+
+/**
+ * Describes how the release commit was identified (used for the `{releaseCommit}` reason placeholder)
+ *
+ * @param result - Detection result with release commit details
+ * @param details - Merged release PR (API detection), target branch and current commit SHA
+ * @returns Description, or undefined when there is no release commit
+ */
+function describeReleaseCommit(
+	result: Omit<PhaseDetectionResult, "mergedReleasePRNumber">,
+	details: { mergedReleasePR?: { number: number; headRef: string }; targetBranch: string; sha: string },
+): string | undefined {
+	if (!result.isReleaseCommit) {
+		return undefined;
+	}
+
+	const { mergedReleasePR, targetBranch, sha } = details;
+	let description = mergedReleasePR
+		? `Merged release PR #${mergedReleasePR.number} from ${mergedReleasePR.headRef}`
+		: `Release commit detected on ${targetBranch}`;
+
+	if (result.releaseCommitSha && result.releaseCommitSha !== sha) {
+		description += ` (commit ${result.releaseCommitSha.substring(0, 7)} in push)`;
+	}
+	if (result.matchedPattern) {
+		description += ` (matched ${result.matchedPattern})`;
+	}
+
+	return description;
+}
+
+/**
+ * Gets the label names of a pull request
+ */
+function getLabelNames(pullRequest: ReleasePRCandidate | undefined): string[] {
+	return (pullRequest?.labels ?? []).flatMap((label) => {
+		const name = typeof label === "string" ? label : label.name;
+		return name ? [name] : [];
+	});
+}
+
+/**
+ * Merge group details from a merge_group event payload
+ */
+interface MergeGroup {
+	/** Queue head ref (e.g. refs/heads/gh-readonly-queue/main/pr-123-<sha>) */
+	headRef: string;
+	/** Queue head SHA */
+	headSha: string;
+	/** Branch the queue merges into (e.g. refs/heads/main) */
+	baseRef: string;
+	/** Base SHA the queue was built on */
+	baseSha: string;
+}
+
+/**
+ * Extracts the merge group from a merge_group event payload
+ *
+ * @param context - GitHub context
+ * @returns Merge group details, or undefined for other events
+ */
+function getMergeGroup(context: typeof githubContext): MergeGroup | undefined {
+	const mergeGroup = context.payload.merge_group as
+		| { head_ref?: string; head_sha?: string; base_ref?: string; base_sha?: string }
+		| undefined;
+
+	if (context.eventName !== "merge_group" || !mergeGroup?.head_ref || !mergeGroup.base_ref) {
+		return undefined;
+	}
+
+	return {
+		headRef: mergeGroup.head_ref,
+		headSha: mergeGroup.head_sha ?? "",
+		baseRef: mergeGroup.base_ref,
+		baseSha: mergeGroup.base_sha ?? "",
+	};
+}
+
+/**
+ * Parses the PR number from a merge queue head ref
+ *
+ * @param headRef - Queue head ref (e.g. refs/heads/gh-readonly-queue/main/pr-123-<sha>)
+ * @returns PR number, or undefined if the ref is not a merge queue ref
+ */
+function parseQueuedPRNumber(headRef: string): number | undefined {
+	const match = headRef.match(/gh-readonly-queue\/.+\/pr-(\d+)-[0-9a-f]+$/);
+	return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Detects the PRs queued in a merge group and whether one is the release PR
+ *
+ * @remarks
+ * The queue head ref only names the last PR in the group. Earlier PRs in a
+ * batched group are found from the commits between the queue base and head,
+ * using the PR references GitHub adds to merge and squash commit messages.
+ * Each queued PR is then fetched to check its head and base branches.
+ *
+ * @param options - Detection options
+ * @returns Queued PR numbers (ascending) and the release PR number if queued
+ */
+async function detectQueuedPRs(options: {
+	octokit: ReturnType<typeof getOctokit>;
+	context: typeof githubContext;
+	mergeGroup: MergeGroup;
+	releaseBranch: string;
+	targetBranch: string;
+	releasePRMatcher: ReleasePRMatcher;
+}): Promise<{ prNumbers: number[]; releasePRNumber?: number; error?: string }> {
+	const { octokit, context, mergeGroup, releaseBranch, targetBranch, releasePRMatcher } = options;
+	const prNumbers = new Set<number>();
+
+	const headPR = parseQueuedPRNumber(mergeGroup.headRef);
+	if (headPR !== undefined) {
+		prNumbers.add(headPR);
+	}
+
+	try {
+		if (mergeGroup.baseSha && mergeGroup.headSha) {
+			const { data: comparison } = await octokit.rest.repos.compareCommits({
+				owner: context.repo.owner,
+				repo: context.repo.repo,
+				base: mergeGroup.baseSha,
+				head: mergeGroup.headSha,
+			});
+
+			for (const commit of comparison.commits) {
+				const subject = commit.commit.message.split("\n")[0];
+				const match = subject.match(/^Merge pull request #(\d+)/) ?? subject.match(/\(#(\d+)\)$/);
+				if (match) {
+					prNumbers.add(Number(match[1]));
+				}
+			}
+		}
+
+		for (const prNumber of prNumbers) {
+			const { data: pr } = await octokit.rest.pulls.get({
+				owner: context.repo.owner,
+				repo: context.repo.repo,
+				pull_number: prNumber,
+			});
+
+			if (isReleasePR(pr, releasePRMatcher, { releaseBranch, targetBranch })) {
+				core.info(`Detected release PR #${prNumber} in merge queue`);
+				return { prNumbers: [...prNumbers].sort((a, b) => a - b), releasePRNumber: prNumber };
+			}
+		}
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		core.warning(`Failed to inspect merge queue PRs: ${message}`);
+		return { prNumbers: [...prNumbers].sort((a, b) => a - b), error: message };
+	}
+
+	return { prNumbers: [...prNumbers].sort((a, b) => a - b) };
+}
+
 /**
  * Options for release commit detection
  */
@@ -187,83 +859,246 @@ interface ReleaseCommitDetectionOptions {
 	releaseBranch: string;
 	targetBranch: string;
 	commitMessage: string;
+	releaseCommitPatterns?: Partial<ReleaseCommitPatterns>;
+	releasePRMatcher: ReleasePRMatcher;
+}
+
+/**
+ * Maximum number of commits GitHub includes in a push event payload
+ */
+const MAX_PUSH_PAYLOAD_COMMITS = 2048;
+
+/**
+ * Maximum number of pushed commits (newest first) checked for an associated release PR through the API
+ */
+const MAX_API_COMMITS = 10;
+
+/**
+ * A commit considered during release commit detection
+ */
+interface PushCommit {
+	/** Commit SHA */
+	sha: string;
+	/** Full commit message */
+	message: string;
+}
+
+/**
+ * Lists the commits of the current push, newest first
+ *
+ * @remarks
+ * Uses `payload.commits` when present. When the payload list is missing or
+ * truncated, the `before..after` range is fetched through the compare API
+ * instead. The head commit (`context.sha`) is always checked first, since a
+ * release PR merge is usually the last commit of a push.
+ *
+ * @param options - Detection options
+ * @returns Commits to check, head commit first
+ */
+async function listPushCommits(options: ReleaseCommitDetectionOptions): Promise<PushCommit[]> {
+	const { context, octokit, commitMessage } = options;
+	const payloadCommits = (context.payload.commits as Array<{ id: string; message: string }> | undefined) ?? [];
+	const before = context.payload.before as string | undefined;
+	const isTruncated =
+		payloadCommits.length >= MAX_PUSH_PAYLOAD_COMMITS ||
+		(!context.payload.commits && context.eventName === "push" && !!before && !/^0+$/.test(before));
+
+	let commits: PushCommit[] = payloadCommits.map((commit) => ({ sha: commit.id, message: commit.message }));
+
+	if (isTruncated && before) {
+		try {
+			const { data: comparison } = await octokit.rest.repos.compareCommits({
+				owner: context.repo.owner,
+				repo: context.repo.repo,
+				base: before,
+				head: context.sha,
+			});
+			commits = comparison.commits.map((commit) => ({ sha: commit.sha, message: commit.commit.message }));
+		} catch (error) {
+			core.warning(`Failed to list pushed commits: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	// Newest first, with the head commit at the front
+	const others = commits.filter((commit) => commit.sha !== context.sha).reverse();
+	return [{ sha: context.sha, message: commitMessage }, ...others];
 }
 
 /**
- * Detects if the current commit is a release commit (from merged release PR)
+ * Detects if the current push contains a release commit (from merged release PR)
  *
  * @remarks
+ * Every commit in the push is checked, not just the head commit, so a release
+ * PR merge that lands together with other commits (rebase merges, batched
+ * pushes) is still found.
+ *
  * Detection methods:
- * 1. **Primary**: Query GitHub API for PRs associated with the commit
- * 2. **Fallback**: Check commit message for merge patterns
+ * 1. **Primary**: Query GitHub API for PRs associated with the newest
+ *    {@link MAX_API_COMMITS} commits (head commit first)
+ * 2. **Older commits**: Match the merge commits of recently closed PRs into
+ *    the target branch against the remaining commits (one request)
+ * 3. **Fallback**: Check the messages of the commits whose API query failed
+ *    for merge patterns
  *
  * @param options - Detection options
- * @returns Whether this is a release commit and the merged PR if found
+ * @returns Whether this is a release commit, the merged PR and the release commit SHA if found
  */
-async function detectReleaseCommit(
-	options: ReleaseCommitDetectionOptions,
-): Promise<{ isReleaseCommit: boolean; mergedPR?: { number: number } }> {
-	const { context, octokit, releaseBranch, targetBranch, commitMessage } = options;
+async function detectReleaseCommit(options: ReleaseCommitDetectionOptions): Promise<{
+	isReleaseCommit: boolean;
+	mergedPR?: { number: number; headRef: string };
+	commitSha?: string;
+	matchedPattern?: string;
+	commitsChecked: number;
+	apiError?: string;
+}> {
+	const { context, octokit, releaseBranch, targetBranch, releaseCommitPatterns, releasePRMatcher } = options;
+	const commits = await listPushCommits(options);
+	const failed: PushCommit[] = [];
+	let apiError: string | undefined;
 
-	try {
-		// Primary: Query API for associated PRs
-		const { data: associatedPRs } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
-			owner: context.repo.owner,
-			repo: context.repo.repo,
-			commit_sha: context.sha,
-		});
+	// Primary: Query API for associated PRs of the newest commits
+	for (const commit of commits.slice(0, MAX_API_COMMITS)) {
+		try {
+			const { data: associatedPRs } = await octokit.rest.repos.listPullRequestsAssociatedWithCommit({
+				owner: context.repo.owner,
+				repo: context.repo.repo,
+				commit_sha: commit.sha,
+			});
 
-		// Find a merged PR from the release branch to target branch
-		const mergedReleasePR = associatedPRs.find(
-			(pr) => pr.merged_at !== null && pr.head.ref === releaseBranch && pr.base.ref === targetBranch,
-		);
+			// Find a merged release PR into the target branch
+			const mergedReleasePR = associatedPRs.find(
+				(pr) => pr.merged_at !== null && isReleasePR(pr, releasePRMatcher, { releaseBranch, targetBranch }),
+			);
 
-		if (mergedReleasePR) {
-			core.info(`Detected merged release PR #${mergedReleasePR.number} from ${releaseBranch}`);
-			return { isReleaseCommit: true, mergedPR: { number: mergedReleasePR.number } };
+			if (mergedReleasePR) {
+				core.info(
+					`Detected merged release PR #${mergedReleasePR.number} from ${mergedReleasePR.head.ref} at ${commit.sha}`,
+				);
+				return {
+					isReleaseCommit: true,
+					mergedPR: { number: mergedReleasePR.number, headRef: mergedReleasePR.head.ref },
+					commitSha: commit.sha,
+					commitsChecked: commits.length,
+				};
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			core.warning(`Failed to check for associated PRs of ${commit.sha.substring(0, 7)}: ${message}`);
+			apiError ??= message;
+			failed.push(commit);
 		}
+	}
 
-		return { isReleaseCommit: false };
-	} catch (error) {
-		core.warning(`Failed to check for associated PRs: ${error instanceof Error ? error.message : String(error)}`);
+	// Older commits: Match them against the merge commits of recently closed PRs
+	const older = commits.slice(MAX_API_COMMITS);
+	if (older.length > 0) {
+		try {
+			const { data: closedPRs } = await octokit.rest.pulls.list({
+				owner: context.repo.owner,
+				repo: context.repo.repo,
+				state: "closed",
+				base: targetBranch,
+				sort: "updated",
+				direction: "desc",
+				per_page: 100,
+			});
 
-		// Fallback: Check commit message patterns
-		return detectReleaseCommitFromMessage(commitMessage, releaseBranch, context.repo.owner);
+			for (const commit of older) {
+				const mergedReleasePR = closedPRs.find(
+					(pr) =>
+						pr.merged_at !== null &&
+						pr.merge_commit_sha === commit.sha &&
+						isReleasePR(pr, releasePRMatcher, { releaseBranch, targetBranch }),
+				);
+
+				if (mergedReleasePR) {
+					core.info(
+						`Detected merged release PR #${mergedReleasePR.number} from ${mergedReleasePR.head.ref} at ${commit.sha}`,
+					);
+					return {
+						isReleaseCommit: true,
+						mergedPR: { number: mergedReleasePR.number, headRef: mergedReleasePR.head.ref },
+						commitSha: commit.sha,
+						commitsChecked: commits.length,
+					};
+				}
+			}
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			core.warning(`Failed to list closed PRs into ${targetBranch}: ${message}`);
+			apiError ??= message;
+			failed.push(...older);
+		}
 	}
+
+	// Fallback: Check commit message patterns of the commits the API could not check
+	return {
+		...detectReleaseCommitFromMessages(failed, releaseBranch, context.repo.owner, releaseCommitPatterns),
+		commitsChecked: commits.length,
+		apiError,
+	};
+}
+
+/**
+ * Fallback detection across several commits using commit message patterns
+ *
+ * @param commits - Commits to check, in priority order
+ * @param releaseBranch - The release branch name
+ * @param owner - Repository owner
+ * @param patterns - User-defined patterns (checked after the built-in ones)
+ * @returns Whether any commit looks like a release commit, which one, and the matched pattern
+ */
+function detectReleaseCommitFromMessages(
+	commits: PushCommit[],
+	releaseBranch: string,
+	owner: string,
+	patterns?: Partial<ReleaseCommitPatterns>,
+): { isReleaseCommit: boolean; commitSha?: string; matchedPattern?: string } {
+	for (const commit of commits) {
+		const detection = detectReleaseCommitFromMessage(commit.message, releaseBranch, owner, patterns);
+		if (detection.isReleaseCommit) {
+			return { isReleaseCommit: true, commitSha: commit.sha, matchedPattern: detection.matchedPattern };
+		}
+	}
+
+	return { isReleaseCommit: false };
 }
 
 /**
  * Fallback detection using commit message patterns
  *
+ * @remarks
+ * Merge patterns are checked before version patterns. Within each group the
+ * built-in patterns come first, followed by the user-defined ones.
+ *
  * @param commitMessage - The commit message to check
  * @param releaseBranch - The release branch name
  * @param owner - Repository owner
- * @returns Whether this looks like a release commit
+ * @param patterns - User-defined patterns
+ * @returns Whether this looks like a release commit, and the matched pattern (e.g. "merge /^Release/")
  */
 function detectReleaseCommitFromMessage(
 	commitMessage: string,
 	releaseBranch: string,
 	owner: string,
-): { isReleaseCommit: boolean; mergedPR?: { number: number } } {
-	// Check for merge commit patterns
-	const isMergeFromReleaseBranch =
-		commitMessage.includes(`from ${owner}/${releaseBranch}`) ||
-		commitMessage.includes(`Merge branch '${releaseBranch}'`) ||
-		(commitMessage.includes(`Merge pull request`) && commitMessage.includes(releaseBranch));
+	patterns?: Partial<ReleaseCommitPatterns>,
+): { isReleaseCommit: boolean; matchedPattern?: string } {
+	const defaults = getDefaultCommitPatterns(releaseBranch, owner);
+	const groups: Array<[kind: string, patterns: RegExp[]]> = [
+		["merge", [...defaults.merge, ...(patterns?.merge ?? [])]],
+		["version", [...defaults.version, ...(patterns?.version ?? [])]],
+	];
 
-	// Check for version commit patterns
-	const isVersionCommit =
-		commitMessage.includes("chore: version packages") ||
-		commitMessage.toLowerCase().includes("version packages") ||
-		commitMessage.startsWith("chore: release");
-
-	const isReleaseCommit = isMergeFromReleaseBranch || isVersionCommit;
-
-	if (isReleaseCommit) {
-		core.info(`Detected release commit from commit message pattern`);
+	for (const [kind, candidates] of groups) {
+		const match = candidates.find((pattern) => pattern.test(commitMessage));
+		if (match) {
+			const matchedPattern = `${kind} ${match}`;
+			core.info(`Detected release commit from commit message pattern (${matchedPattern})`);
+			return { isReleaseCommit: true, matchedPattern };
+		}
 	}
 
-	return { isReleaseCommit };
+	return { isReleaseCommit: false };
 }
 
 /**
@@ -276,35 +1111,57 @@ function detectReleaseCommitFromMessage(
  *
  * @param options - Detection options (subset of full options)
  * @returns Detection result
+ * @throws Error if a requested phase is not legal for the current ref
  */
 export function detectWorkflowPhaseSync(options: {
 	releaseBranch: string;
 	targetBranch: string;
 	context: typeof githubContext;
+	preState?: PreState | null;
+	releaseLines?: ReleaseLine[];
+	requestedPhase?: string;
+	releaseCommitPatterns?: Partial<ReleaseCommitPatterns>;
+	releasePRMatcher?: ReleasePRMatcher;
+	phaseRules?: readonly PhaseRule[];
+	hasChangesets?: boolean;
 }): Omit<PhaseDetectionResult, "mergedReleasePRNumber"> {
-	const { releaseBranch, targetBranch, context } = options;
+	const { preState, releasePRMatcher = DEFAULT_RELEASE_PR_MATCHER } = options;
+	const { context, workflowRun } = resolveEventContext(options.context);
+	const { releaseBranch, targetBranch, releaseLine } = resolveBranches({ ...options, context });
 
 	const commitMessage = context.payload.head_commit?.message || "";
 	const isReleaseBranch = context.ref === `refs/heads/${releaseBranch}`;
 	const isMainBranch = context.ref === `refs/heads/${targetBranch}`;
+	const isPreRelease = preState?.mode === "pre";
 
 	const isPullRequestEvent = context.eventName === "pull_request";
 	const pullRequest = context.payload.pull_request as
-		| { merged?: boolean; head?: { ref: string }; base?: { ref: string }; number: number }
+		| (ReleasePRCandidate & { merged?: boolean; number: number })
 		| undefined;
 	const isPRMerged = isPullRequestEvent && pullRequest?.merged === true;
-	const isReleasePRMerged =
-		isPRMerged && pullRequest?.head?.ref === releaseBranch && pullRequest?.base?.ref === targetBranch;
+	const isReleasePRMerged = isPRMerged && isReleasePR(pullRequest, releasePRMatcher, { releaseBranch, targetBranch });
+
+	const isMergeGroupEvent = context.eventName === "merge_group";
+	const mergeGroup = getMergeGroup(context);
 
-	// Detect release commit from message (sync fallback)
-	const { isReleaseCommit } = detectReleaseCommitFromMessage(commitMessage, releaseBranch, context.repo.owner);
+	// Detect release commit from the messages of every pushed commit (sync fallback)
+	const payloadCommits = (context.payload.commits as Array<{ id: string; message: string }> | undefined) ?? [];
+	const pushCommits: PushCommit[] = [
+		{ sha: context.sha, message: commitMessage },
+		...payloadCommits
+			.filter((commit) => commit.id !== context.sha)
+			.reverse()
+			.map((commit) => ({ sha: commit.id, message: commit.message })),
+	];
+	const {
+		isReleaseCommit,
+		commitSha: releaseCommitSha,
+		matchedPattern,
+	} = detectReleaseCommitFromMessages(pushCommits, releaseBranch, context.repo.owner, options.releaseCommitPatterns);
 
-	// Detect if this is an open PR from release branch to target branch
+	// Detect if this is an open release PR into the target branch
 	const isReleasePROpen =
-		isPullRequestEvent &&
-		!isPRMerged &&
-		pullRequest?.head?.ref === releaseBranch &&
-		pullRequest?.base?.ref === targetBranch;
+		isPullRequestEvent && !isPRMerged && isReleasePR(pullRequest, releasePRMatcher, { releaseBranch, targetBranch });
 
 	const result: Omit<PhaseDetectionResult, "mergedReleasePRNumber"> = {
 		phase: "none",
@@ -312,39 +1169,78 @@ export function detectWorkflowPhaseSync(options: {
 		isReleaseBranch,
 		isMainBranch,
 		isReleaseCommit: isReleasePRMerged || isReleaseCommit,
+		releaseCommitSha,
+		matchedPattern,
 		isPullRequestEvent,
 		isPRMerged,
 		isReleasePRMerged,
 		commitMessage: commitMessage.substring(0, 100) + (commitMessage.length > 100 ? "..." : ""),
+		isPreRelease,
+		preTag: isPreRelease ? preState?.tag : undefined,
+		releaseLine,
+		isMergeGroupEvent,
+		workflowRun,
+		decisionTrace: [],
 	};
 
-	// Phase 3a/3: Release commit
-	if (isReleasePRMerged || (isMainBranch && result.isReleaseCommit)) {
-		result.phase = isReleasePRMerged ? "close-issues" : "publishing";
-		result.reason = isReleasePRMerged
-			? `Release PR merged via pull_request event`
-			: `Release commit detected on ${targetBranch}`;
+	traceEventContext(result, { context, releaseBranch, targetBranch, pullRequest, releasePRMatcher });
+
+	// Chained workflows only continue from a successful triggering run
+	if (workflowRun && workflowRun.conclusion !== "success") {
+		result.reason = `Triggering workflow "${workflowRun.name}" concluded with ${workflowRun.conclusion || "no conclusion"}`;
 		return result;
 	}
 
-	// Phase 2a: Pre-publish validation (on open PR from release branch to main)
-	if (isReleasePROpen && pullRequest) {
-		result.phase = "validation";
-		result.reason = `Open PR #${pullRequest.number} from ${releaseBranch} to ${targetBranch}`;
-		return result;
+	result.decisionTrace.push({
+		step: "release-commit",
+		matched: isReleaseCommit,
+		inputs: { sha: context.sha, commitsChecked: pushCommits.length, releaseCommitSha: releaseCommitSha ?? null },
+		detail: `Commit message patterns only (no token)${matchedPattern ? ` (matched ${matchedPattern})` : ""}`,
+	});
+
+	// Manual override (workflow_dispatch with a requested phase)
+	const requestedPhase = getRequestedPhase(context, options.requestedPhase);
+	if (requestedPhase) {
+		result.decisionTrace.push({ step: "requested-phase", matched: true, inputs: { requestedPhase } });
+		return applyRequestedPhase(result, requestedPhase, { releaseBranch, targetBranch, sha: context.sha });
+	}
+
+	// Merge queue: queued PR heads cannot be inspected without API access
+	if (isMergeGroupEvent && mergeGroup) {
+		const prNumber = parseQueuedPRNumber(mergeGroup.headRef);
+		result.queuedPRNumbers = prNumber !== undefined ? [prNumber] : [];
 	}
 
-	// Phase 2: Validation (push to release branch)
-	if (isReleaseBranch) {
-		result.phase = "validation";
-		result.reason = `Push to release branch ${releaseBranch}`;
+	// Pick the phase from the first matching rule
+	const matched = applyPhaseRules(result, options.phaseRules ?? DEFAULT_PHASE_RULES, {
+		facts: {
+			event: context.eventName,
+			ref: context.ref,
+			labels: getLabelNames(pullRequest),
+			hasChangesets: options.hasChangesets ?? false,
+			releaseCommit: result.isReleaseCommit,
+			branch: isMainBranch ? "target" : isReleaseBranch ? "release" : undefined,
+			releasePR: isReleasePRMerged ? "merged" : isReleasePROpen ? "open" : undefined,
+			preRelease: isPreRelease,
+		},
+		values: {
+			pr: pullRequest?.number,
+			headRef: pullRequest?.head?.ref,
+			targetBranch,
+			releaseBranch,
+			event: context.eventName,
+			ref: context.ref.replace(/^refs\/heads\//, ""),
+			preTag: result.preTag,
+			releaseCommit: describeReleaseCommit(result, { targetBranch, sha: context.sha }),
+		},
+	});
+
+	if (matched) {
 		return result;
 	}
 
-	// Phase 1: Branch management
-	if (isMainBranch) {
-		result.phase = "branch-management";
-		result.reason = `Push to ${targetBranch} (not a release commit)`;
+	if (isMergeGroupEvent && mergeGroup) {
+		result.reason = `Merge queue run for ${mergeGroup.baseRef.replace("refs/heads/", "")} (release PR detection requires a token)`;
 		return result;
 	}
 
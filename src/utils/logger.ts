@@ -107,6 +107,24 @@ export const logger = {
 		core.info("");
 	},
 
+	/**
+	 * Log the phase detection decision trace in a collapsible group
+	 */
+	decisionTrace(
+		entries: Array<{ step: string; matched: boolean; inputs: Record<string, unknown>; detail?: string }>,
+	): void {
+		core.startGroup("Decision trace");
+
+		for (const entry of entries) {
+			core.info(
+				`${entry.matched ? STATE.good : STATE.neutral} ${entry.step}${entry.detail ? `: ${entry.detail}` : ""}`,
+			);
+			core.info(`    ${JSON.stringify(entry.inputs)}`);
+		}
+
+		core.endGroup();
+	},
+
 	/**
 	 * Log a success message
 	 */
@@ -122,17 +140,25 @@ export const logger = {
 	},
 
 	/**
-	 * Log a warning message
+	 * Log a warning message, optionally annotating a file location
 	 */
-	warn(message: string): void {
-		core.warning(`${STATE.warning} ${message}`);
+	warn(message: string, properties?: core.AnnotationProperties): void {
+		if (properties) {
+			core.warning(`${STATE.warning} ${message}`, properties);
+		} else {
+			core.warning(`${STATE.warning} ${message}`);
+		}
 	},
 
 	/**
-	 * Log an error message
+	 * Log an error message, optionally annotating a file location
 	 */
-	error(message: string): void {
-		core.error(`${STATE.issue} ${message}`);
+	error(message: string, properties?: core.AnnotationProperties): void {
+		if (properties) {
+			core.error(`${STATE.issue} ${message}`, properties);
+		} else {
+			core.error(`${STATE.issue} ${message}`);
+		}
 	},
 
 	/**
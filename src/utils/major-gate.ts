@@ -0,0 +1,273 @@
+import * as core from "@actions/core";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import type { PhaseDetectionResult } from "./detect-workflow-phase.js";
+import type { BumpType } from "./parse-changesets.js";
+import { parseChangesetFiles } from "./parse-changesets.js";
+import { matchPattern } from "./release-lines.js";
+import { fetchChangesetFiles } from "./remote-changesets.js";
+import type { WorkspacePackage } from "./workspace-packages.js";
+
+/**
+ * Approval policy for major releases
+ */
+export interface MajorGate {
+	/** Release PR label that approves a major release (empty when unused) */
+	label: string;
+	/** Teams ("org/team-slug", or "team-slug" in the repository owner's org) whose approving review approves it */
+	teams: string[];
+	/** Packages (names or `*` patterns) whose major bumps need approval (empty: every package) */
+	packages: string[];
+}
+
+/**
+ * Options for applying the major-bump gate
+ */
+export interface MajorGateOptions {
+	/** Approval policy */
+	gate: MajorGate;
+	/** GitHub context */
+	context: typeof githubContext;
+	/** Authenticated Octokit instance (without one approval cannot be verified) */
+	octokit?: ReturnType<typeof getOctokit>;
+	/** Effective bumps of the changesets in the working tree */
+	packageBumps: Map<string, BumpType>;
+	/** Workspace packages by name (for re-reading consumed changesets) */
+	packages: Map<string, WorkspacePackage>;
+}
+
+/**
+ * Parses the major-bump gate inputs
+ *
+ * @param inputs - Raw `major-approval-label`, `major-approval-teams` and `major-approval-packages` inputs
+ * @returns Approval policy, or null when neither a label nor teams are configured
+ * @throws Error if packages are listed without a label or teams
+ */
+export function parseMajorGate(inputs: { label: string; teams: string; packages: string }): MajorGate | null {
+	const toList = (value: string) =>
+		value
+			.split(/[\n,]/)
+			.map((item) => item.trim())
+			.filter(Boolean);
+	const gate = { label: inputs.label.trim(), teams: toList(inputs.teams), packages: toList(inputs.packages) };
+
+	if (!gate.label && gate.teams.length === 0) {
+		if (gate.packages.length > 0) {
+			throw new Error("major-approval-packages needs major-approval-label or major-approval-teams");
+		}
+		return null;
+	}
+
+	return gate;
+}
+
+/**
+ * Lists the packages getting a major bump that the gate covers
+ *
+ * @param packageBumps - Effective bumps by package name
+ * @param gate - Approval policy
+ * @returns Sorted package names
+ */
+export function findGatedPackages(packageBumps: Map<string, BumpType>, gate: MajorGate): string[] {
+	return [...packageBumps]
+		.filter(([, bump]) => bump === "major")
+		.map(([name]) => name)
+		.filter((name) => gate.packages.length === 0 || gate.packages.some((pattern) => matchPattern(pattern, name)))
+		.sort();
+}
+
+/**
+ * Holds back publishing of a major release until it is approved
+ *
+ * @remarks
+ * Only `publishing` and `pre-release-publishing` are gated. A major release is
+ * approved when the merged release PR has the gate label, or an approving
+ * review (latest review per reviewer) from a member of a gate team. Otherwise
+ * the phase becomes `blocked` with a reason naming the gated packages.
+ *
+ * `changeset version` deletes the changesets it consumed, and a push can add
+ * new ones after the release commit, so the bumps are read through the API
+ * from the changesets at the release PR's base commit, or at the parent of
+ * the release commit when the release PR is unknown. The working tree bumps
+ * are only used when neither is available and the working tree is the
+ * release commit (or the release commit is unknown). When the bumps cannot be
+ * determined (no token, no release PR or release commit, API failures) the
+ * phase is blocked as well. Approval that cannot be verified counts as missing.
+ *
+ * @param result - Detection result
+ * @param options - Policy, context, Octokit, bumps and workspace packages
+ * @returns The result, blocked when approval is missing (with a `major-gate` decision trace entry)
+ */
+export async function applyMajorGate<T extends Omit<PhaseDetectionResult, "mergedReleasePRNumber">>(
+	result: T,
+	options: MajorGateOptions,
+): Promise<T> {
+	if (result.phase !== "publishing" && result.phase !== "pre-release-publishing") {
+		return result;
+	}
+
+	const { gate, context, octokit } = options;
+	const pullNumber =
+		"mergedReleasePRNumber" in result ? (result.mergedReleasePRNumber as number | undefined) : undefined;
+	const repo = { owner: context.repo.owner, repo: context.repo.repo };
+	// Later commits of the push may have added changesets the release did not consume
+	const isReleaseCommitCheckedOut = !result.releaseCommitSha || result.releaseCommitSha === context.sha;
+	let packageBumps = isReleaseCommitCheckedOut && options.packageBumps.size > 0 ? options.packageBumps : undefined;
+
+	try {
+		const pr = octokit && pullNumber ? (await octokit.rest.pulls.get({ ...repo, pull_number: pullNumber })).data : null;
+
+		if (octokit) {
+			const ref =
+				pr?.base.sha ??
+				(result.releaseCommitSha
+					? (await octokit.rest.git.getCommit({ ...repo, commit_sha: result.releaseCommitSha })).data.parents[0]?.sha
+					: undefined);
+			if (ref) {
+				const files = await fetchChangesetFiles({ octokit, context, ref });
+				packageBumps = parseChangesetFiles(files, options.packages).packageBumps;
+			}
+		}
+
+		if (!packageBumps) {
+			return block(
+				result,
+				undefined,
+				undefined,
+				octokit ? "No release PR or release commit to read the bumps from" : "No token to read the bumps with",
+				pullNumber,
+				gate,
+			);
+		}
+
+		const gated = findGatedPackages(packageBumps, gate);
+		if (gated.length === 0) {
+			result.decisionTrace.push({
+				step: "major-gate",
+				matched: false,
+				inputs: { releasePR: pullNumber ?? null },
+				detail: "No gated package gets a major bump",
+			});
+			return result;
+		}
+
+		const approval = octokit && pr ? await findApproval(octokit, context, pr, gate) : undefined;
+		const detail =
+			approval ??
+			(pr
+				? `No approval on release PR #${pr.number}`
+				: octokit
+					? "No release PR to check approval on"
+					: "No token to check approval with");
+
+		return block(result, gated, approval, detail, pullNumber, gate);
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		core.warning(`Failed to check major release approval: ${message}`);
+
+		return block(
+			result,
+			packageBumps && findGatedPackages(packageBumps, gate),
+			undefined,
+			`API failed (${message})`,
+			pullNumber,
+			gate,
+		);
+	}
+}
+
+/**
+ * Records the gate outcome and blocks the result when approval is missing
+ * (or when the gated packages could not be determined)
+ */
+function block<T extends Omit<PhaseDetectionResult, "mergedReleasePRNumber">>(
+	result: T,
+	gated: string[] | undefined,
+	approval: string | undefined,
+	detail: string,
+	pullNumber: number | undefined,
+	gate: MajorGate,
+): T {
+	result.decisionTrace.push({
+		step: "major-gate",
+		matched: !approval && (gated === undefined || gated.length > 0),
+		inputs: { packages: gated ?? null, label: gate.label || null, teams: gate.teams, releasePR: pullNumber ?? null },
+		detail,
+	});
+
+	if (gated === undefined) {
+		result.phase = "blocked";
+		result.reason = `Could not determine the bumps of the release to check for major releases (${detail})`;
+		return result;
+	}
+
+	if (approval || gated.length === 0) {
+		return result;
+	}
+
+	const ways = [
+		...(gate.label ? [`label "${gate.label}"`] : []),
+		...(gate.teams.length > 0 ? [`an approving review from ${gate.teams.map((team) => `@${team}`).join(" or ")}`] : []),
+	];
+	result.phase = "blocked";
+	result.reason = `Major release of ${gated.join(", ")} needs approval (${ways.join(" or ")}${pullNumber ? ` on release PR #${pullNumber}` : ""})`;
+	return result;
+}
+
+/**
+ * Finds what approves the major release on the release PR
+ *
+ * @returns Description of the approval, or undefined when there is none
+ */
+async function findApproval(
+	octokit: ReturnType<typeof getOctokit>,
+	context: typeof githubContext,
+	pr: { number: number; labels: Array<{ name?: string }> },
+	gate: MajorGate,
+): Promise<string | undefined> {
+	if (gate.label && pr.labels.some((label) => label.name === gate.label)) {
+		return `Label "${gate.label}" on release PR #${pr.number}`;
+	}
+
+	if (gate.teams.length === 0) {
+		return undefined;
+	}
+
+	// Only the latest review of each reviewer counts
+	const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+		owner: context.repo.owner,
+		repo: context.repo.repo,
+		pull_number: pr.number,
+		per_page: 100,
+	});
+	const latest = new Map<string, string>();
+	for (const review of reviews) {
+		if (review.user?.login && review.state !== "COMMENTED") {
+			latest.set(review.user.login, review.state);
+		}
+	}
+	const approvers = [...latest].filter(([, state]) => state === "APPROVED").map(([login]) => login);
+
+	for (const team of gate.teams) {
+		const [org, teamSlug] = team.includes("/") ? team.split("/", 2) : [context.repo.owner, team];
+
+		for (const username of approvers) {
+			try {
+				const { data: membership } = await octokit.rest.teams.getMembershipForUserInOrg({
+					org,
+					team_slug: teamSlug,
+					username,
+				});
+				if (membership.state === "active") {
+					return `Approved by @${username} (@${org}/${teamSlug}) on release PR #${pr.number}`;
+				}
+			} catch (error) {
+				// 404: not a member of the team
+				if ((error as { status?: number }).status !== 404) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	return undefined;
+}
@@ -0,0 +1,74 @@
+import * as semver from "semver";
+import type { BumpType, PreState } from "./parse-changesets.js";
+import type { WorkspacePackage } from "./workspace-packages.js";
+
+/**
+ * Projected version of a released package
+ */
+export interface NextVersion {
+	/** Package name */
+	name: string;
+	/** Effective bump type */
+	bump: BumpType;
+	/** Current version from package.json */
+	current: string;
+	/** Version `changeset version` would produce */
+	next: string;
+}
+
+/**
+ * Computes the next version of each released package
+ *
+ * @remarks
+ * Follows `changeset version`: while pre mode is active the bump is applied
+ * to the version the package had when pre mode was entered (from
+ * `initialVersions`) and a `-<tag>.<n>` suffix is added, where `n` continues
+ * the current pre-release counter. After `changeset pre exit` the bump is
+ * still applied to the initial version, without a suffix.
+ *
+ * Packages that are not in the workspace or have no valid version are left out.
+ *
+ * @param packageBumps - Map of package name to effective bump type
+ * @param packages - Workspace packages by name
+ * @param preState - Pre mode state, or null when not in pre mode
+ * @returns Next versions sorted by package name
+ */
+export function computeNextVersions(
+	packageBumps: Map<string, BumpType>,
+	packages: Map<string, WorkspacePackage>,
+	preState: PreState | null,
+): NextVersion[] {
+	const nextVersions: NextVersion[] = [];
+
+	for (const [name, bump] of [...packageBumps].sort(([a], [b]) => a.localeCompare(b))) {
+		const current = packages.get(name)?.version ?? "";
+		const base = preState?.initialVersions[name] ?? current;
+
+		if (bump === "none" || !semver.valid(current) || !semver.valid(base)) {
+			continue;
+		}
+
+		let next = semver.inc(base, bump);
+
+		if (!next) {
+			continue;
+		}
+
+		if (preState?.mode === "pre") {
+			next = `${next}-${preState.tag}.${getPreReleaseNumber(current, preState.tag)}`;
+		}
+
+		nextVersions.push({ name, bump, current, next });
+	}
+
+	return nextVersions;
+}
+
+/**
+ * Returns the pre-release number after the current one (`1.1.0-next.2` with tag `next` gives 3, `1.0.0` gives 0)
+ */
+function getPreReleaseNumber(version: string, tag: string): number {
+	const [prereleaseTag, prereleaseNumber] = semver.prerelease(version) ?? [];
+
+	return prereleaseTag === tag && typeof prereleaseNumber === "number" ? prereleaseNumber + 1 : 0;
+}
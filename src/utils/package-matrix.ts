@@ -0,0 +1,69 @@
+import type { BumpType, ReleaseSource } from "./parse-changesets.js";
+import type { WorkspacePackage } from "./workspace-packages.js";
+
+/**
+ * A package entry of the job matrix
+ */
+export interface PackageMatrixEntry {
+	/** Package name */
+	name: string;
+	/** Effective bump type */
+	bump: BumpType;
+	/** Whether the package is named in a changeset or only released as a dependent */
+	source: ReleaseSource;
+	/** Package directory relative to the workspace root (empty if the package is not in the workspace) */
+	path: string;
+	/** Current version (empty if the package is not in the workspace) */
+	version: string;
+}
+
+/**
+ * Job matrix shaped for `strategy.matrix` (`matrix: ${{ fromJSON(...) }}`)
+ */
+export interface PackageMatrix {
+	include: PackageMatrixEntry[];
+}
+
+/**
+ * Options for building the job matrix
+ */
+export interface PackageMatrixOptions {
+	/** Leave out private packages */
+	excludePrivate?: boolean;
+	/** Release source by package name (packages not listed are `direct`) */
+	sources?: Map<string, ReleaseSource>;
+}
+
+/**
+ * Builds a per-package job matrix from changeset bumps
+ *
+ * @param packageBumps - Map of package name to effective bump type
+ * @param packages - Workspace packages by name
+ * @param options - Exclusion options
+ * @returns Matrix with one entry per affected package, sorted by name
+ */
+export function buildPackageMatrix(
+	packageBumps: Map<string, BumpType>,
+	packages: Map<string, WorkspacePackage>,
+	options: PackageMatrixOptions = {},
+): PackageMatrix {
+	const include: PackageMatrixEntry[] = [];
+
+	for (const [name, bump] of [...packageBumps].sort(([a], [b]) => a.localeCompare(b))) {
+		const workspacePackage = packages.get(name);
+
+		if (options.excludePrivate && workspacePackage?.private) {
+			continue;
+		}
+
+		include.push({
+			name,
+			bump,
+			source: options.sources?.get(name) ?? "direct",
+			path: workspacePackage?.path ?? "",
+			version: workspacePackage?.version ?? "",
+		});
+	}
+
+	return { include };
+}
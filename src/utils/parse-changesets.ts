@@ -1,10 +1,18 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import * as semver from "semver";
+import { matchPattern } from "./release-lines.js";
+import type { WorkspaceDependency, WorkspacePackage } from "./workspace-packages.js";
 
 /**
  * Bump type for a package in a changeset
+ *
+ * @remarks
+ * `none` lists a package in a changeset without releasing it.
  */
-export type BumpType = "major" | "minor" | "patch";
+export type BumpType = "major" | "minor" | "patch" | "none";
+
+const BUMP_TYPES: readonly BumpType[] = ["major", "minor", "patch", "none"];
 
 /**
  * A single package release from a changeset
@@ -12,10 +20,34 @@ export type BumpType = "major" | "minor" | "patch";
 export interface ChangesetRelease {
 	/** Package name */
 	name: string;
-	/** Bump type (major, minor, patch) */
+	/** Bump type (major, minor, patch, none) */
 	type: BumpType;
 }
 
+/**
+ * Problem found while parsing a changeset file
+ */
+export interface ChangesetDiagnostic {
+	/** Changeset ID (filename without .md) */
+	id: string;
+	/** 1-based line number in the file, when the problem is tied to a line */
+	line?: number;
+	/** Errors drop the affected entry (or file); warnings are informational */
+	severity: "error" | "warning";
+	/** Human-readable description */
+	message: string;
+}
+
+/**
+ * Result of parsing a single changeset file
+ */
+export interface ParseChangesetFileResult {
+	/** Parsed changeset, or null when the frontmatter could not be located */
+	changeset: ParsedChangeset | null;
+	/** Problems found in the file */
+	diagnostics: ChangesetDiagnostic[];
+}
+
 /**
  * Parsed changeset file
  */
@@ -26,6 +58,65 @@ export interface ParsedChangeset {
 	summary: string;
 	/** Packages affected by this changeset */
 	releases: ChangesetRelease[];
+	/** Commit that added the changeset (with `changeset-attribution`) */
+	commit?: string;
+	/** Pull request that added the changeset (with `changeset-attribution` and a token) */
+	pullRequest?: number;
+	/** Login of that pull request's author */
+	author?: string;
+}
+
+/**
+ * Why a package is released: named in a changeset (or its fixed/linked group),
+ * or only because an internal dependency is released
+ */
+export type ReleaseSource = "direct" | "dependent";
+
+/**
+ * Effective release plan after applying the Changesets config
+ */
+export interface ReleasePlan {
+	/** Map of package name to effective bump type */
+	bumps: Map<string, BumpType>;
+	/** Map of package name to release source */
+	sources: Map<string, ReleaseSource>;
+}
+
+/**
+ * Changesets pre-release mode state (contents of `.changeset/pre.json`)
+ */
+export interface PreState {
+	/** "pre" while in pre mode, "exit" after `changeset pre exit` until the next version */
+	mode: "pre" | "exit";
+	/** Pre-release tag (e.g. "next", "beta") */
+	tag: string;
+	/** Package versions at the time pre mode was entered */
+	initialVersions: Record<string, string>;
+	/** IDs of changesets already consumed by a pre-release version */
+	changesets: string[];
+}
+
+/**
+ * Changesets configuration (subset of `.changeset/config.json`)
+ */
+export interface ChangesetConfig {
+	/** Changelog generator module, or null when changelogs are disabled (`changelog: false`) */
+	changelog: string | null;
+	/** Packages (names or `*` patterns) that are never versioned or published */
+	ignore: string[];
+	/** Groups of packages (names or `*` patterns) that are always released together with the same bump */
+	fixed: string[][];
+	/** Groups of packages (names or `*` patterns) whose released members share the highest bump */
+	linked: string[][];
+	/** Lowest dependency bump that also releases its internal dependents */
+	updateInternalDependencies: "patch" | "minor";
+	/** How private packages are handled */
+	privatePackages: {
+		/** Whether private packages are versioned */
+		version: boolean;
+		/** Whether private packages are tagged */
+		tag: boolean;
+	};
 }
 
 /**
@@ -42,16 +133,38 @@ export interface ParseChangesetsResult {
 	releaseType: BumpType | null;
 	/** All affected packages (deduplicated) */
 	affectedPackages: string[];
-	/** Map of package name to highest bump type */
+	/** Map of package name to highest bump type declared in changesets (packages only listed as `none` are omitted) */
+	declaredBumps: Map<string, BumpType>;
+	/** Map of package name to effective bump type after applying `.changeset/config.json` and dependents */
 	packageBumps: Map<string, BumpType>;
+	/** Why each package in `packageBumps` is released */
+	packageSources: Map<string, ReleaseSource>;
+	/** Workspace path of each package named in a changeset (packages not in the workspace are omitted) */
+	packagePaths: Map<string, string>;
+	/** Parse problems across all changeset files */
+	diagnostics: ChangesetDiagnostic[];
+	/** Pre-release mode state (`mode` is "exit" after `changeset pre exit`), or null without a pre.json */
+	preState: PreState | null;
+	/** Number of changesets not yet consumed by a pre-release version */
+	unconsumedChangesetCount: number;
 }
 
+/**
+ * Contents of a changeset directory by file name (changeset `.md` files, `pre.json` and `config.json`)
+ */
+export type ChangesetFiles = Map<string, string>;
+
 /**
  * Options for parsing changesets
  */
 export interface ParseChangesetsOptions {
 	/** Path to the .changeset directory (default: .changeset) */
 	changesetPath?: string;
+	/**
+	 * Workspace packages by name, used to resolve package paths, reject unknown
+	 * packages, expand config patterns and find private packages
+	 */
+	packages?: Map<string, WorkspacePackage>;
 }
 
 /**
@@ -68,58 +181,116 @@ export interface ParseChangesetsOptions {
  * Summary of changes
  * ```
  *
+ * When `.changeset/pre.json` exists the pre mode state is read as well, and
+ * changesets already listed in it are excluded from the unconsumed count.
+ *
+ * Declared bumps are turned into effective bumps with the settings from
+ * `.changeset/config.json` (see {@link applyChangesetConfig}); the release
+ * type and affected packages follow the effective bumps.
+ *
  * @param options - Parsing options
  * @returns Parsed changesets with metadata
  */
 export function parseChangesets(options: ParseChangesetsOptions = {}): ParseChangesetsResult {
 	const changesetPath = options.changesetPath || ".changeset";
 	const absolutePath = path.isAbsolute(changesetPath) ? changesetPath : path.join(process.cwd(), changesetPath);
+	const files: ChangesetFiles = new Map();
 
+	// Check if directory exists
+	if (fs.existsSync(absolutePath)) {
+		for (const entry of fs.readdirSync(absolutePath)) {
+			if (isChangesetFile(entry) || entry === "pre.json" || entry === "config.json") {
+				files.set(entry, fs.readFileSync(path.join(absolutePath, entry), "utf8"));
+			}
+		}
+	}
+
+	return parseChangesetFiles(files, options.packages);
+}
+
+/**
+ * Parses the contents of a changeset directory
+ *
+ * @remarks
+ * Shared by the local reader ({@link parseChangesets}) and the API reader, so
+ * both produce the same result for the same files.
+ *
+ * @param files - Changeset directory contents by file name
+ * @param packages - Workspace packages by name
+ * @returns Parsed changesets with metadata
+ */
+export function parseChangesetFiles(
+	files: ChangesetFiles,
+	packages?: Map<string, WorkspacePackage>,
+): ParseChangesetsResult {
 	const result: ParseChangesetsResult = {
 		hasChangesets: false,
 		changesetCount: 0,
 		changesets: [],
 		releaseType: null,
 		affectedPackages: [],
+		declaredBumps: new Map(),
 		packageBumps: new Map(),
+		packageSources: new Map(),
+		packagePaths: new Map(),
+		diagnostics: [],
+		preState: null,
+		unconsumedChangesetCount: 0,
 	};
 
-	// Check if directory exists
-	if (!fs.existsSync(absolutePath)) {
-		return result;
+	// Read pre mode state (only when pre.json is present)
+	const preJson = files.get("pre.json");
+	if (preJson !== undefined) {
+		result.preState = parsePreState(preJson);
 	}
 
+	const configJson = files.get("config.json");
+	const config = configJson !== undefined ? parseChangesetConfig(configJson) : defaultChangesetConfig();
+
 	// Find all .md files (excluding README.md)
-	const files = fs.readdirSync(absolutePath).filter((file) => {
-		return file.endsWith(".md") && file.toLowerCase() !== "readme.md";
-	});
+	const changesetFiles = [...files.keys()].filter(isChangesetFile).sort();
 
-	if (files.length === 0) {
+	if (changesetFiles.length === 0) {
 		return result;
 	}
 
 	result.hasChangesets = true;
-	result.changesetCount = files.length;
+	result.changesetCount = changesetFiles.length;
+
+	// Changesets listed in pre.json were already released as a pre-release
+	const consumed = new Set(result.preState?.changesets ?? []);
+	result.unconsumedChangesetCount = changesetFiles.filter((file) => !consumed.has(file.replace(/\.md$/, ""))).length;
 
 	// Parse each changeset file
-	for (const file of files) {
-		const filePath = path.join(absolutePath, file);
-		const content = fs.readFileSync(filePath, "utf8");
-		const parsed = parseChangesetFile(content, file.replace(/\.md$/, ""));
+	for (const file of changesetFiles) {
+		const content = files.get(file) ?? "";
+		const { changeset: parsed, diagnostics } = parseChangesetFile(content, file.replace(/\.md$/, ""), packages);
+
+		result.diagnostics.push(...diagnostics);
 
 		if (parsed) {
 			result.changesets.push(parsed);
 
-			// Track package bumps
+			// Track package bumps (a `none` entry never releases the package)
 			for (const release of parsed.releases) {
-				const existingBump = result.packageBumps.get(release.name);
+				const workspacePackage = packages?.get(release.name);
+				if (workspacePackage) {
+					result.packagePaths.set(release.name, workspacePackage.path);
+				}
+
+				if (release.type === "none") continue;
+				const existingBump = result.declaredBumps.get(release.name);
 				if (!existingBump || compareBumpTypes(release.type, existingBump) > 0) {
-					result.packageBumps.set(release.name, release.type);
+					result.declaredBumps.set(release.name, release.type);
 				}
 			}
 		}
 	}
 
+	const plan = applyChangesetConfig(result.declaredBumps, config, packages ?? new Map());
+	result.packageBumps = plan.bumps;
+	result.packageSources = plan.sources;
+
 	// Calculate affected packages (deduplicated)
 	result.affectedPackages = Array.from(result.packageBumps.keys()).sort();
 
@@ -129,52 +300,504 @@ export function parseChangesets(options: ParseChangesetsOptions = {}): ParseChan
 	return result;
 }
 
+/**
+ * Checks whether a file name in the changeset directory is a changeset (`.md`, not README.md)
+ *
+ * @param fileName - File name
+ * @returns Whether the file is a changeset
+ */
+export function isChangesetFile(fileName: string): boolean {
+	return fileName.endsWith(".md") && fileName.toLowerCase() !== "readme.md";
+}
+
+/**
+ * Reads the Changesets pre mode state from `pre.json`
+ *
+ * @param changesetPath - Path to .changeset directory
+ * @returns Pre mode state, or null if pre.json is missing or invalid
+ */
+export function readPreState(changesetPath: string = ".changeset"): PreState | null {
+	const absolutePath = path.isAbsolute(changesetPath) ? changesetPath : path.join(process.cwd(), changesetPath);
+	const preJsonPath = path.join(absolutePath, "pre.json");
+
+	if (!fs.existsSync(preJsonPath)) {
+		return null;
+	}
+
+	return parsePreState(fs.readFileSync(preJsonPath, "utf8"));
+}
+
+/**
+ * Parses the contents of `pre.json`
+ *
+ * @param content - File content
+ * @returns Pre mode state, or null if the content is invalid
+ */
+export function parsePreState(content: string): PreState | null {
+	try {
+		const raw = JSON.parse(content) as Partial<PreState>;
+
+		if ((raw.mode !== "pre" && raw.mode !== "exit") || typeof raw.tag !== "string" || !raw.tag) {
+			return null;
+		}
+
+		return {
+			mode: raw.mode,
+			tag: raw.tag,
+			initialVersions: raw.initialVersions ?? {},
+			changesets: Array.isArray(raw.changesets) ? raw.changesets : [],
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Reads the Changesets configuration from `config.json`
+ *
+ * @remarks
+ * Invalid values for individual settings fall back to their defaults.
+ *
+ * @param changesetPath - Path to .changeset directory
+ * @returns Configuration (defaults if config.json is missing or invalid)
+ */
+export function readChangesetConfig(changesetPath: string = ".changeset"): ChangesetConfig {
+	const absolutePath = path.isAbsolute(changesetPath) ? changesetPath : path.join(process.cwd(), changesetPath);
+	const configPath = path.join(absolutePath, "config.json");
+
+	if (!fs.existsSync(configPath)) {
+		return defaultChangesetConfig();
+	}
+
+	return parseChangesetConfig(fs.readFileSync(configPath, "utf8"));
+}
+
+/**
+ * Parses the contents of `config.json`
+ *
+ * @remarks
+ * Invalid values for individual settings fall back to their defaults.
+ *
+ * @param content - File content
+ * @returns Configuration (defaults if the content is invalid)
+ */
+export function parseChangesetConfig(content: string): ChangesetConfig {
+	const config = defaultChangesetConfig();
+
+	try {
+		const raw = JSON.parse(content) as {
+			ignore?: unknown;
+			fixed?: unknown;
+			linked?: unknown;
+			updateInternalDependencies?: unknown;
+			privatePackages?: unknown;
+			changelog?: unknown;
+		};
+
+		// `changelog` is a module name or a [module, options] tuple
+		const changelog = Array.isArray(raw.changelog) ? raw.changelog[0] : raw.changelog;
+		if (changelog === false) {
+			config.changelog = null;
+		} else if (typeof changelog === "string" && changelog) {
+			config.changelog = changelog;
+		}
+
+		config.ignore = toStringList(raw.ignore);
+		config.fixed = toGroups(raw.fixed);
+		config.linked = toGroups(raw.linked);
+
+		if (raw.updateInternalDependencies === "patch" || raw.updateInternalDependencies === "minor") {
+			config.updateInternalDependencies = raw.updateInternalDependencies;
+		}
+
+		// `privatePackages: false` turns off both versioning and tagging
+		if (raw.privatePackages === false) {
+			config.privatePackages = { version: false, tag: false };
+		} else if (raw.privatePackages && typeof raw.privatePackages === "object") {
+			const { version, tag } = raw.privatePackages as { version?: unknown; tag?: unknown };
+			config.privatePackages = {
+				version: typeof version === "boolean" ? version : config.privatePackages.version,
+				tag: typeof tag === "boolean" ? tag : config.privatePackages.tag,
+			};
+		}
+	} catch {
+		// Fall back to defaults
+	}
+
+	return config;
+}
+
+/**
+ * Returns the Changesets defaults for the settings this action reads
+ */
+function defaultChangesetConfig(): ChangesetConfig {
+	return {
+		changelog: "@changesets/cli/changelog",
+		ignore: [],
+		fixed: [],
+		linked: [],
+		updateInternalDependencies: "patch",
+		privatePackages: { version: true, tag: false },
+	};
+}
+
+/**
+ * Keeps the string items of a config list
+ */
+function toStringList(value: unknown): string[] {
+	return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+/**
+ * Keeps the non-empty string groups of a `fixed` or `linked` config list
+ */
+function toGroups(value: unknown): string[][] {
+	return Array.isArray(value) ? value.map(toStringList).filter((group) => group.length > 0) : [];
+}
+
+/**
+ * Applies the Changesets config to the bumps declared in changesets
+ *
+ * @remarks
+ * Mirrors how `changeset version` assembles its release plan:
+ * - packages matching `ignore` are never released
+ * - private packages are not released when `privatePackages.version` is false
+ * - every package of a `fixed` group is released with the group's highest bump
+ *   once any member is released
+ * - released packages of a `linked` group share the group's highest bump
+ * - packages depending on a released package (through `dependencies`,
+ *   `optionalDependencies` or `peerDependencies`) get a patch release when the
+ *   dependency's bump reaches `updateInternalDependencies`, or when its next
+ *   version leaves the declared range; peer dependents get a major release
+ *   for minor and major bumps. This repeats for the dependents' dependents.
+ *
+ * Group and ignore entries may be package names or `*` patterns, expanded
+ * against the workspace packages and the declared package names.
+ *
+ * @param declaredBumps - Map of package name to highest bump declared in changesets
+ * @param config - Changesets configuration
+ * @param packages - Workspace packages by name
+ * @returns Effective bump and release source of each released package
+ */
+export function applyChangesetConfig(
+	declaredBumps: Map<string, BumpType>,
+	config: ChangesetConfig,
+	packages: Map<string, WorkspacePackage>,
+): ReleasePlan {
+	const matchesAny = (patterns: string[], name: string): boolean =>
+		patterns.some((pattern) => matchPattern(pattern, name) !== null);
+	const isSkipped = (name: string): boolean =>
+		matchesAny(config.ignore, name) || (!config.privatePackages.version && packages.get(name)?.private === true);
+
+	const names = [...new Set([...packages.keys(), ...declaredBumps.keys()])].filter((name) => !isSkipped(name));
+	const groups = [
+		...config.fixed.map((group) => ({ members: names.filter((name) => matchesAny(group, name)), fixed: true })),
+		...config.linked.map((group) => ({ members: names.filter((name) => matchesAny(group, name)), fixed: false })),
+	];
+
+	// Reverse dependency graph (package name -> packages depending on it)
+	const dependents = new Map<string, Array<{ name: string; dependency: WorkspaceDependency }>>();
+	for (const workspacePackage of packages.values()) {
+		if (isSkipped(workspacePackage.name)) continue;
+		for (const dependency of workspacePackage.dependencies) {
+			if (dependency.type === "devDependencies") continue;
+			const list = dependents.get(dependency.name) ?? [];
+			list.push({ name: workspacePackage.name, dependency });
+			dependents.set(dependency.name, list);
+		}
+	}
+
+	const bumps = new Map([...declaredBumps].filter(([name, bump]) => bump !== "none" && !isSkipped(name)));
+	const sources = new Map<string, ReleaseSource>([...bumps.keys()].map((name) => [name, "direct"]));
+
+	const raise = (name: string, bump: BumpType, source: ReleaseSource): boolean => {
+		const existing = bumps.get(name);
+		if (existing && compareBumpTypes(bump, existing) <= 0) {
+			return false;
+		}
+		bumps.set(name, bump);
+		if (!sources.has(name)) {
+			sources.set(name, source);
+		}
+		return true;
+	};
+
+	// Bumps only ever increase, so repeating until nothing changes terminates
+	let changed = true;
+	while (changed) {
+		changed = false;
+
+		for (const { members, fixed } of groups) {
+			const released = members.filter((name) => bumps.has(name));
+			const highest = getHighestBumpType(new Map(released.map((name) => [name, bumps.get(name) as BumpType])));
+
+			if (!highest) continue;
+
+			for (const name of fixed ? members : released) {
+				changed = raise(name, highest, "direct") || changed;
+			}
+		}
+
+		for (const [name, bump] of [...bumps]) {
+			for (const { name: dependent, dependency } of dependents.get(name) ?? []) {
+				const leavesRange = !satisfiesRange(packages.get(name)?.version ?? "", bump, dependency.range);
+
+				if (compareBumpTypes(bump, config.updateInternalDependencies) < 0 && !leavesRange) continue;
+
+				const dependentBump = dependency.type === "peerDependencies" && bump !== "patch" ? "major" : "patch";
+				changed = raise(dependent, dependentBump, "dependent") || changed;
+			}
+		}
+	}
+
+	return { bumps, sources };
+}
+
+/**
+ * Checks whether the bumped version still satisfies a dependency range
+ *
+ * @remarks
+ * `workspace:` ranges are checked without the protocol; `workspace:*`,
+ * `workspace:^` and `workspace:~` always follow the workspace version.
+ * Unknown versions and ranges count as satisfied.
+ */
+function satisfiesRange(version: string, bump: BumpType, range: string): boolean {
+	const next = semver.valid(version) && bump !== "none" ? semver.inc(version, bump) : null;
+	const cleaned = range.replace(/^workspace:/, "");
+
+	if (!next || ["*", "^", "~", ""].includes(cleaned) || !semver.validRange(cleaned)) {
+		return true;
+	}
+
+	return semver.satisfies(next, cleaned);
+}
+
 /**
  * Parses a single changeset file
  *
+ * @remarks
+ * The frontmatter is read as a flat YAML mapping of package name to bump type
+ * (see {@link parseFrontmatterLine} for the supported subset). A leading BOM
+ * and CRLF line endings are accepted, as are `#` comments and single-quoted,
+ * double-quoted or unquoted package names. Lines that cannot be parsed are
+ * skipped and reported as diagnostics; the changeset is only null when no
+ * frontmatter block is found.
+ *
+ * When workspace packages are given, entries naming a package that is not in
+ * the workspace are skipped and reported as errors as well.
+ *
  * @param content - File content
  * @param id - Changeset ID (filename without extension)
- * @returns Parsed changeset or null if invalid
+ * @param packages - Workspace packages by name (unknown packages are not checked when empty)
+ * @returns Parsed changeset (or null) with any diagnostics
  */
-export function parseChangesetFile(content: string, id: string): ParsedChangeset | null {
-	// Split frontmatter from content
-	const frontmatterMatch = content.match(/^---\n([\s\S]*?)\n---\n?([\s\S]*)$/);
+export function parseChangesetFile(
+	content: string,
+	id: string,
+	packages: Map<string, WorkspacePackage> = new Map(),
+): ParseChangesetFileResult {
+	const diagnostics: ChangesetDiagnostic[] = [];
+	const lines = content.replace(/^\uFEFF/, "").split(/\r\n|\r|\n/);
+
+	if (lines[0]?.trimEnd() !== "---") {
+		diagnostics.push({
+			id,
+			line: 1,
+			severity: "error",
+			message: "Missing frontmatter (expected the file to start with ---)",
+		});
+		return { changeset: null, diagnostics };
+	}
 
-	if (!frontmatterMatch) {
-		return null;
+	const closingIndex = lines.findIndex((line, index) => index > 0 && line.trimEnd() === "---");
+
+	if (closingIndex === -1) {
+		diagnostics.push({ id, line: 1, severity: "error", message: "Unterminated frontmatter (missing closing ---)" });
+		return { changeset: null, diagnostics };
 	}
 
-	const [, frontmatter, summary] = frontmatterMatch;
 	const releases: ChangesetRelease[] = [];
 
-	// Parse YAML frontmatter (simple key: value format)
-	// Format: "package-name": bump-type
-	const lines = frontmatter.split("\n");
-
-	for (const line of lines) {
-		const trimmed = line.trim();
-		if (!trimmed) continue;
-
-		// Match patterns like:
-		// "package-name": major
-		// "@scope/package": minor
-		// 'package-name': patch
-		const match = trimmed.match(/^["']?([^"']+)["']?\s*:\s*(major|minor|patch)\s*$/);
-
-		if (match) {
-			const [, packageName, bumpType] = match;
-			releases.push({
-				name: packageName.trim(),
-				type: bumpType as BumpType,
+	for (let index = 1; index < closingIndex; index++) {
+		const line = index + 1;
+		const entry = parseFrontmatterLine(lines[index]);
+
+		if (entry === null) continue;
+
+		if ("error" in entry) {
+			diagnostics.push({ id, line, severity: "error", message: entry.error });
+			continue;
+		}
+
+		if (!BUMP_TYPES.includes(entry.value as BumpType)) {
+			diagnostics.push({
+				id,
+				line,
+				severity: "error",
+				message: `Invalid bump type "${entry.value}" for "${entry.key}" (expected ${BUMP_TYPES.join(", ")})`,
+			});
+			continue;
+		}
+
+		if (packages.size > 0 && !packages.has(entry.key)) {
+			diagnostics.push({
+				id,
+				line,
+				severity: "error",
+				message: `Unknown package "${entry.key}" (not in the workspace)`,
 			});
+			continue;
+		}
+
+		if (releases.some((release) => release.name === entry.key)) {
+			diagnostics.push({ id, line, severity: "error", message: `Duplicate entry for "${entry.key}"` });
+			continue;
 		}
+
+		releases.push({ name: entry.key, type: entry.value as BumpType });
 	}
 
-	return {
-		id,
-		summary: summary.trim(),
-		releases,
-	};
+	if (releases.length === 0 && diagnostics.length === 0) {
+		diagnostics.push({ id, line: 1, severity: "warning", message: "Changeset does not list any packages" });
+	}
+
+	const summary = lines
+		.slice(closingIndex + 1)
+		.join("\n")
+		.trim();
+
+	if (!summary) {
+		diagnostics.push({ id, line: closingIndex + 1, severity: "warning", message: "Changeset summary is empty" });
+	}
+
+	return { changeset: { id, summary, releases }, diagnostics };
+}
+
+/**
+ * YAML indicators that start a construct outside the supported subset (flow
+ * collections, sequences, complex keys, anchors, aliases, tags, block scalars
+ * and directives)
+ */
+const UNSUPPORTED_YAML_INDICATORS = ["{", "[", "-", "?", "&", "*", "!", "|", ">", "%"];
+
+/**
+ * Parses one frontmatter line into a key/value pair
+ *
+ * @remarks
+ * Only the subset of YAML that changesets write is supported: one top-level
+ * `package: bump` entry per line, with a plain, single-quoted or
+ * double-quoted package name and bump type and an optional trailing comment.
+ * Indented lines and lines starting with another YAML construct are reported
+ * as errors rather than misread.
+ *
+ * @param raw - Line content
+ * @returns Entry, an error, or null for blank and comment-only lines
+ */
+function parseFrontmatterLine(raw: string): { key: string; value: string } | { error: string } | null {
+	const text = raw.trim();
+
+	if (!text || text.startsWith("#")) {
+		return null;
+	}
+
+	if (/^\s/.test(raw)) {
+		return { error: `Unsupported indented line "${text}" (expected one top-level "package": bump entry per line)` };
+	}
+
+	if (UNSUPPORTED_YAML_INDICATORS.includes(text[0])) {
+		return { error: `Unsupported YAML "${text}" (expected one top-level "package": bump entry per line)` };
+	}
+
+	let key: string;
+	let rest: string;
+
+	if (text.startsWith('"') || text.startsWith("'")) {
+		const quoted = readQuoted(text);
+		if (!quoted) {
+			return { error: "Unterminated quoted package name" };
+		}
+		key = quoted.value;
+		rest = quoted.rest.trimStart();
+		if (!rest.startsWith(":")) {
+			return { error: `Expected ":" after "${key}"` };
+		}
+		rest = rest.slice(1);
+	} else {
+		// Plain keys end at the first ": " (or a trailing ":")
+		const colon = text.search(/:(\s|$)/);
+		if (colon === -1) {
+			return { error: `Expected "package": bump, got "${text}"` };
+		}
+		key = text.slice(0, colon).trim();
+		rest = text.slice(colon + 1);
+	}
+
+	if (!key) {
+		return { error: "Empty package name" };
+	}
+
+	rest = rest.trim();
+	let value: string;
+
+	if (rest.startsWith('"') || rest.startsWith("'")) {
+		const quoted = readQuoted(rest);
+		if (!quoted) {
+			return { error: `Unterminated quoted bump type for "${key}"` };
+		}
+		const trailing = quoted.rest.trim();
+		if (trailing && !trailing.startsWith("#")) {
+			return { error: `Unexpected content after bump type for "${key}"` };
+		}
+		value = quoted.value;
+	} else {
+		// A plain value ends at the first " #" comment
+		value = rest.replace(/(^|\s)#.*$/, "").trim();
+	}
+
+	if (!value) {
+		return { error: `Missing bump type for "${key}"` };
+	}
+
+	return { key, value };
+}
+
+/**
+ * Reads a single- or double-quoted YAML scalar from the start of a string
+ *
+ * @param text - Text starting with a quote character
+ * @returns Unquoted value and remaining text, or null if unterminated
+ */
+function readQuoted(text: string): { value: string; rest: string } | null {
+	const quote = text[0];
+	let value = "";
+
+	for (let index = 1; index < text.length; index++) {
+		const char = text[index];
+
+		if (quote === "'" && char === "'") {
+			// '' is an escaped single quote
+			if (text[index + 1] === "'") {
+				value += "'";
+				index++;
+				continue;
+			}
+			return { value, rest: text.slice(index + 1) };
+		}
+
+		if (quote === '"' && char === "\\" && index + 1 < text.length) {
+			value += text[index + 1];
+			index++;
+			continue;
+		}
+
+		if (quote === '"' && char === '"') {
+			return { value, rest: text.slice(index + 1) };
+		}
+
+		value += char;
+	}
+
+	return null;
 }
 
 /**
@@ -185,7 +808,7 @@ export function parseChangesetFile(content: string, id: string): ParsedChangeset
  * @returns Positive if a > b, negative if a < b, 0 if equal
  */
 export function compareBumpTypes(a: BumpType, b: BumpType): number {
-	const order: Record<BumpType, number> = { major: 3, minor: 2, patch: 1 };
+	const order: Record<BumpType, number> = { major: 3, minor: 2, patch: 1, none: 0 };
 	return order[a] - order[b];
 }
 
@@ -193,14 +816,14 @@ export function compareBumpTypes(a: BumpType, b: BumpType): number {
  * Gets the highest bump type from a map of package bumps
  *
  * @param packageBumps - Map of package name to bump type
- * @returns Highest bump type or null if empty
+ * @returns Highest bump type or null if empty (or only `none`)
  */
 export function getHighestBumpType(packageBumps: Map<string, BumpType>): BumpType | null {
 	if (packageBumps.size === 0) {
 		return null;
 	}
 
-	let highest: BumpType = "patch";
+	let highest: BumpType = "none";
 
 	for (const bumpType of packageBumps.values()) {
 		if (compareBumpTypes(bumpType, highest) > 0) {
@@ -208,7 +831,7 @@ export function getHighestBumpType(packageBumps: Map<string, BumpType>): BumpTyp
 		}
 	}
 
-	return highest;
+	return highest === "none" ? null : highest;
 }
 
 /**
@@ -225,7 +848,7 @@ export function hasChangesets(changesetPath: string = ".changeset"): boolean {
 	}
 
 	const files = fs.readdirSync(absolutePath);
-	return files.some((file) => file.endsWith(".md") && file.toLowerCase() !== "readme.md");
+	return files.some(isChangesetFile);
 }
 
 /**
@@ -242,5 +865,5 @@ export function countChangesets(changesetPath: string = ".changeset"): number {
 	}
 
 	const files = fs.readdirSync(absolutePath);
-	return files.filter((file) => file.endsWith(".md") && file.toLowerCase() !== "readme.md").length;
+	return files.filter(isChangesetFile).length;
 }
@@ -0,0 +1,369 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ParseError } from "jsonc-parser";
+import { parse, printParseErrorCode } from "jsonc-parser";
+import { matchPattern } from "./release-lines.js";
+
+/**
+ * Default location of the phase rules file
+ */
+export const PHASE_RULES_FILE = ".github/workflow-control.jsonc";
+
+/**
+ * Conditions of a phase rule
+ *
+ * @remarks
+ * Every condition that is set must hold for the rule to match. List values
+ * match when any entry matches, except `labels`, which requires all of them.
+ */
+export interface PhaseRuleConditions {
+	/** Event names (e.g. "push", "pull_request") */
+	event?: string | string[];
+	/** Ref patterns with `*` wildcards, as branch names ("release/*") or full refs ("refs/tags/*") */
+	ref?: string | string[];
+	/** PR labels that must all be present */
+	labels?: string[];
+	/** Whether changeset files are present */
+	hasChangesets?: boolean;
+	/** Whether a release commit was detected */
+	releaseCommit?: boolean;
+	/** Whether the ref is the (resolved) target or release branch */
+	branch?: "target" | "release";
+	/** Release PR state for the event (open or merged PR, or queued in a merge group) */
+	releasePR?: "open" | "merged" | "queued";
+	/** Whether changesets pre mode is active */
+	preRelease?: boolean;
+}
+
+/**
+ * A rule mapping conditions to a phase
+ */
+export interface PhaseRule {
+	/** Rule name (shown in the reason and logs) */
+	name: string;
+	/** Phase to run when the rule matches (a built-in phase or a custom name) */
+	phase: string;
+	/** Conditions that must all hold */
+	when: PhaseRuleConditions;
+	/** Reason template; `{placeholder}` values are filled from the detection context */
+	reason?: string;
+}
+
+/**
+ * Detection facts rules are evaluated against
+ */
+export interface PhaseRuleFacts {
+	/** Event name */
+	event: string;
+	/** Full ref (e.g. refs/heads/main) */
+	ref: string;
+	/** PR labels (pull_request events only) */
+	labels: string[];
+	/** Whether changeset files are present */
+	hasChangesets: boolean;
+	/** Whether a release commit was detected */
+	releaseCommit: boolean;
+	/** Whether the ref is the target or release branch */
+	branch?: "target" | "release";
+	/** Release PR state for the event */
+	releasePR?: "open" | "merged" | "queued";
+	/** Whether changesets pre mode is active */
+	preRelease: boolean;
+}
+
+/**
+ * Built-in rules, in priority order
+ *
+ * @remarks
+ * These reproduce the default phase ordering: close-issues, validation,
+ * publishing, branch-management. When no rule matches the phase is `none`.
+ */
+export const DEFAULT_PHASE_RULES: readonly PhaseRule[] = [
+	{
+		name: "release-pr-merged",
+		phase: "close-issues",
+		when: { releasePR: "merged" },
+		reason: "Release PR #{pr} merged via pull_request event",
+	},
+	{
+		name: "release-pr-open",
+		phase: "validation",
+		when: { releasePR: "open" },
+		reason: "Open PR #{pr} from {headRef} to {targetBranch}",
+	},
+	{
+		name: "release-pr-queued",
+		phase: "validation",
+		when: { releasePR: "queued" },
+		reason: "Merge queue for {targetBranch} contains release PR #{pr}",
+	},
+	{
+		name: "pre-release-commit",
+		phase: "pre-release-publishing",
+		when: { branch: "target", releaseCommit: true, preRelease: true },
+		reason: '{releaseCommit} (pre mode, tag "{preTag}")',
+	},
+	{
+		name: "release-commit",
+		phase: "publishing",
+		when: { branch: "target", releaseCommit: true },
+		reason: "{releaseCommit}",
+	},
+	{
+		name: "release-branch-push",
+		phase: "validation",
+		when: { branch: "release" },
+		reason: "Push to release branch {releaseBranch}",
+	},
+	{
+		name: "target-branch-push",
+		phase: "branch-management",
+		when: { branch: "target" },
+		reason: "Push to {targetBranch} (not a release commit)",
+	},
+];
+
+const CONDITION_KEYS: readonly (keyof PhaseRuleConditions)[] = [
+	"event",
+	"ref",
+	"labels",
+	"hasChangesets",
+	"releaseCommit",
+	"branch",
+	"releasePR",
+	"preRelease",
+];
+
+/**
+ * Loads the phase rules file
+ *
+ * @remarks
+ * The file is JSON with comments:
+ * ```jsonc
+ * {
+ *   // Keep the built-in rules after the custom ones
+ *   "extendDefaults": true,
+ *   "rules": [
+ *     { "name": "docs", "phase": "docs-preview", "when": { "event": "pull_request", "labels": ["docs"] } }
+ *   ]
+ * }
+ * ```
+ * Without `extendDefaults` the file replaces the built-in rules entirely.
+ *
+ * @param filePath - Path to the rules file (default: .github/workflow-control.jsonc)
+ * @returns Rules in priority order (the built-in rules when the file does not exist)
+ * @throws Error if the file is not valid JSONC or a rule is malformed
+ */
+export function loadPhaseRules(filePath: string = PHASE_RULES_FILE): PhaseRule[] {
+	const absolutePath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+
+	if (!fs.existsSync(absolutePath)) {
+		return [...DEFAULT_PHASE_RULES];
+	}
+
+	const errors: ParseError[] = [];
+	const config = parse(fs.readFileSync(absolutePath, "utf8"), errors, { allowTrailingComma: true });
+
+	if (errors.length > 0) {
+		const [error] = errors;
+		throw new Error(
+			`Invalid phase rules file ${filePath}: ${printParseErrorCode(error.error)} at offset ${error.offset}`,
+		);
+	}
+
+	return parsePhaseRules(config, filePath);
+}
+
+/**
+ * Validates a parsed phase rules configuration
+ *
+ * @param config - Parsed file contents
+ * @param source - File path (used in error messages)
+ * @returns Rules in priority order
+ * @throws Error if the configuration is malformed
+ */
+export function parsePhaseRules(config: unknown, source: string = PHASE_RULES_FILE): PhaseRule[] {
+	const fail = (message: string): never => {
+		throw new Error(`Invalid phase rules file ${source}: ${message}`);
+	};
+
+	if (!isObject(config) || !Array.isArray(config.rules)) {
+		return fail(`expected an object with a "rules" array`);
+	}
+
+	const rules = config.rules.map((raw, index): PhaseRule => {
+		const at = `rules[${index}]`;
+
+		if (!isObject(raw)) {
+			return fail(`${at} must be an object`);
+		}
+		if (typeof raw.phase !== "string" || !raw.phase) {
+			return fail(`${at}.phase must be a non-empty string`);
+		}
+		if (raw.name !== undefined && typeof raw.name !== "string") {
+			return fail(`${at}.name must be a string`);
+		}
+		if (raw.reason !== undefined && typeof raw.reason !== "string") {
+			return fail(`${at}.reason must be a string`);
+		}
+		if (!isObject(raw.when)) {
+			return fail(`${at}.when must be an object`);
+		}
+
+		for (const [key, value] of Object.entries(raw.when)) {
+			if (!CONDITION_KEYS.includes(key as keyof PhaseRuleConditions)) {
+				return fail(`${at}.when.${key} is not a known condition (expected one of: ${CONDITION_KEYS.join(", ")})`);
+			}
+			if ((key === "event" || key === "ref") && !isStringOrStrings(value)) {
+				return fail(`${at}.when.${key} must be a string or an array of strings`);
+			}
+			if (key === "labels" && !(Array.isArray(value) && value.every((item) => typeof item === "string"))) {
+				return fail(`${at}.when.labels must be an array of strings`);
+			}
+			if ((key === "hasChangesets" || key === "releaseCommit" || key === "preRelease") && typeof value !== "boolean") {
+				return fail(`${at}.when.${key} must be a boolean`);
+			}
+			if (key === "branch" && value !== "target" && value !== "release") {
+				return fail(`${at}.when.branch must be "target" or "release"`);
+			}
+			if (key === "releasePR" && value !== "open" && value !== "merged" && value !== "queued") {
+				return fail(`${at}.when.releasePR must be "open", "merged" or "queued"`);
+			}
+		}
+
+		return {
+			name: (raw.name as string | undefined) || `rule ${index + 1}`,
+			phase: raw.phase,
+			when: raw.when as PhaseRuleConditions,
+			reason: raw.reason as string | undefined,
+		};
+	});
+
+	return config.extendDefaults === true ? [...rules, ...DEFAULT_PHASE_RULES] : rules;
+}
+
+/**
+ * Checks whether a rule's conditions hold
+ *
+ * @param rule - Rule to check
+ * @param facts - Detection facts
+ * @returns Whether every condition of the rule holds
+ */
+export function matchesPhaseRule(rule: PhaseRule, facts: PhaseRuleFacts): boolean {
+	const { when } = rule;
+
+	if (when.event !== undefined && !toList(when.event).includes(facts.event)) {
+		return false;
+	}
+	if (when.ref !== undefined && !toList(when.ref).some((pattern) => matchesRef(pattern, facts.ref))) {
+		return false;
+	}
+	if (when.labels !== undefined && !when.labels.every((label) => facts.labels.includes(label))) {
+		return false;
+	}
+	if (when.hasChangesets !== undefined && when.hasChangesets !== facts.hasChangesets) {
+		return false;
+	}
+	if (when.releaseCommit !== undefined && when.releaseCommit !== facts.releaseCommit) {
+		return false;
+	}
+	if (when.branch !== undefined && when.branch !== facts.branch) {
+		return false;
+	}
+	if (when.releasePR !== undefined && when.releasePR !== facts.releasePR) {
+		return false;
+	}
+	if (when.preRelease !== undefined && when.preRelease !== facts.preRelease) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Evaluation of a single rule
+ */
+export interface PhaseRuleEvaluation {
+	/** Evaluated rule */
+	rule: PhaseRule;
+	/** Whether every condition held */
+	matched: boolean;
+	/** Facts the rule's conditions were checked against */
+	facts: Partial<PhaseRuleFacts>;
+}
+
+/**
+ * Evaluates rules in order until one matches
+ *
+ * @param rules - Rules in priority order
+ * @param facts - Detection facts
+ * @returns The matching rule (if any) and every evaluation up to and including it
+ */
+export function evaluatePhaseRules(
+	rules: readonly PhaseRule[],
+	facts: PhaseRuleFacts,
+): { rule?: PhaseRule; evaluations: PhaseRuleEvaluation[] } {
+	const evaluations: PhaseRuleEvaluation[] = [];
+
+	for (const rule of rules) {
+		const checked = Object.fromEntries(
+			Object.keys(rule.when).map((key) => [key, facts[key as keyof PhaseRuleFacts] ?? null]),
+		) as Partial<PhaseRuleFacts>;
+		const matched = matchesPhaseRule(rule, facts);
+
+		evaluations.push({ rule, matched, facts: checked });
+
+		if (matched) {
+			return { rule, evaluations };
+		}
+	}
+
+	return { evaluations };
+}
+
+/**
+ * Builds the reason for a matched rule
+ *
+ * @param rule - Matched rule
+ * @param values - Placeholder values (unknown or missing placeholders are left as-is)
+ * @returns The reason text
+ */
+export function formatPhaseRuleReason(rule: PhaseRule, values: Record<string, string | number | undefined>): string {
+	if (!rule.reason) {
+		return `Matched rule "${rule.name}"`;
+	}
+
+	return rule.reason.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+		const value = values[key];
+		return value === undefined ? placeholder : String(value);
+	});
+}
+
+/**
+ * Matches a ref pattern against a full ref
+ */
+function matchesRef(pattern: string, ref: string): boolean {
+	const target = pattern.startsWith("refs/") ? ref : ref.replace(/^refs\/heads\//, "");
+	return matchPattern(pattern, target) !== null;
+}
+
+/**
+ * Normalizes a single value or list to a list
+ */
+function toList(value: string | string[]): string[] {
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Checks for a string or an array of strings
+ */
+function isStringOrStrings(value: unknown): boolean {
+	return typeof value === "string" || (Array.isArray(value) && value.every((item) => typeof item === "string"));
+}
+
+/**
+ * Checks for a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
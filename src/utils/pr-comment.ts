@@ -0,0 +1,131 @@
+import * as core from "@actions/core";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import type { NextVersion } from "./next-versions.js";
+import type { BumpType, ParsedChangeset } from "./parse-changesets.js";
+import { summaryWriter } from "./summary-writer.js";
+
+/** Hidden marker identifying the release preview comment */
+export const PR_COMMENT_MARKER = "<!-- workflow-control-action:release-preview -->";
+
+/**
+ * What happened to the release preview comment
+ */
+export type PreviewCommentAction = "created" | "updated" | "unchanged" | "deleted" | "none";
+
+/**
+ * Options for building the release preview comment
+ */
+export interface PreviewCommentOptions {
+	/** Changesets added by the pull request */
+	changesets: ParsedChangeset[];
+	/** Effective bumps of all released packages */
+	packageBumps: Map<string, BumpType>;
+	/** Projected versions of the released packages */
+	nextVersions: NextVersion[];
+}
+
+/**
+ * Builds the release preview comment for a pull request
+ *
+ * @remarks
+ * Lists the changesets the pull request adds with their declared bumps, and
+ * the effective bump and projected version of every package they name.
+ *
+ * @param options - Added changesets, effective bumps and next versions
+ * @returns Comment body (starting with {@link PR_COMMENT_MARKER}), or null when the pull request adds no changesets
+ */
+export function buildPreviewComment(options: PreviewCommentOptions): string | null {
+	if (options.changesets.length === 0) {
+		return null;
+	}
+
+	const versions = new Map(options.nextVersions.map((entry) => [entry.name, entry]));
+	const names = [...new Set(options.changesets.flatMap((changeset) => changeset.releases.map((r) => r.name)))].sort();
+
+	const changesetsTable = summaryWriter.table(
+		["Changeset", "Packages"],
+		options.changesets.map((changeset) => [
+			`\`${changeset.id}\``,
+			changeset.releases.map((release) => `\`${release.name}\` ${release.type}`).join(", ") || "None",
+		]),
+	);
+	const packagesTable = summaryWriter.table(
+		["Package", "Bump", "Current → Next"],
+		names.map((name) => {
+			const version = versions.get(name);
+			return [
+				`\`${name}\``,
+				options.packageBumps.get(name) ?? "none",
+				version ? `${version.current} → ${version.next}` : "not released",
+			];
+		}),
+	);
+
+	return [
+		PR_COMMENT_MARKER,
+		summaryWriter.build([
+			{
+				heading: "Release Preview",
+				level: 3,
+				content: `This pull request adds ${options.changesets.length} changeset(s).`,
+			},
+			{ content: changesetsTable },
+			{ heading: "Affected Packages", level: 4, content: packagesTable },
+		]),
+	]
+		.join("\n")
+		.trimEnd();
+}
+
+/**
+ * Creates, updates or deletes the release preview comment on a pull request
+ *
+ * @remarks
+ * The comment is found by {@link PR_COMMENT_MARKER}, so every run edits the same
+ * comment. A null body deletes it. Failures (e.g. a read-only token on a fork)
+ * are logged as warnings.
+ *
+ * @param options - Octokit, context, pull request number and comment body
+ * @returns What happened to the comment
+ */
+export async function upsertPreviewComment(options: {
+	octokit: ReturnType<typeof getOctokit>;
+	context: typeof githubContext;
+	pullNumber: number;
+	body: string | null;
+}): Promise<PreviewCommentAction> {
+	const { octokit, context, pullNumber, body } = options;
+	const repo = { owner: context.repo.owner, repo: context.repo.repo };
+
+	try {
+		const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+			...repo,
+			issue_number: pullNumber,
+			per_page: 100,
+		});
+		const existing = comments.find((comment) => comment.body?.includes(PR_COMMENT_MARKER));
+
+		if (body === null) {
+			if (!existing) return "none";
+			await octokit.rest.issues.deleteComment({ ...repo, comment_id: existing.id });
+			return "deleted";
+		}
+
+		if (!existing) {
+			await octokit.rest.issues.createComment({ ...repo, issue_number: pullNumber, body });
+			return "created";
+		}
+
+		if (existing.body === body) {
+			return "unchanged";
+		}
+
+		await octokit.rest.issues.updateComment({ ...repo, comment_id: existing.id, body });
+		return "updated";
+	} catch (error) {
+		core.warning(
+			`Failed to update the release preview comment: ${error instanceof Error ? error.message : String(error)}`,
+		);
+		return "none";
+	}
+}
@@ -0,0 +1,144 @@
+/**
+ * A release line mapping a target branch pattern to a release branch pattern
+ *
+ * @remarks
+ * Patterns may contain `*` wildcards. Each wildcard captured from one side is
+ * substituted positionally into the other, so `release/*` paired with
+ * `changeset-release/release/*` maps `release/1.x` to `changeset-release/release/1.x`.
+ */
+export interface ReleaseLine {
+	/** Target branch pattern (e.g. "main", "release/*") */
+	target: string;
+	/** Release branch pattern (e.g. "changeset-release/main", "changeset-release/release/*") */
+	release: string;
+}
+
+/**
+ * A release line resolved against a concrete branch
+ */
+export interface ResolvedReleaseLine {
+	/** Line name (the concrete target branch, e.g. "release/1.x") */
+	name: string;
+	/** Concrete target branch */
+	targetBranch: string;
+	/** Concrete release branch */
+	releaseBranch: string;
+}
+
+/**
+ * Parses the `release-lines` input
+ *
+ * @remarks
+ * One mapping per line in the format `<target-pattern>: <release-pattern>`.
+ * Blank lines and lines starting with `#` are ignored. Git does not allow `:`
+ * in branch names, so it is safe to use as the separator.
+ *
+ * @example
+ * ```text
+ * main: changeset-release/main
+ * release/*: changeset-release/release/*
+ * ```
+ *
+ * @param input - Raw input value
+ * @returns Parsed release lines (in declaration order)
+ * @throws Error if a line is malformed or the wildcard counts differ
+ */
+export function parseReleaseLines(input: string): ReleaseLine[] {
+	const lines: ReleaseLine[] = [];
+
+	for (const rawLine of input.split("\n")) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith("#")) continue;
+
+		const separator = line.indexOf(":");
+		const target = separator === -1 ? "" : line.slice(0, separator).trim();
+		const release = separator === -1 ? "" : line.slice(separator + 1).trim();
+
+		if (!target || !release) {
+			throw new Error(`Invalid release line "${line}": expected "<target-pattern>: <release-pattern>"`);
+		}
+
+		if (countWildcards(target) !== countWildcards(release)) {
+			throw new Error(`Invalid release line "${line}": target and release patterns must use the same number of "*"`);
+		}
+
+		lines.push({ target, release });
+	}
+
+	return lines;
+}
+
+/**
+ * Resolves which release line a set of branches belongs to
+ *
+ * @remarks
+ * The release branch candidate is matched against the release pattern of every
+ * line (in order) before the target branch candidate is matched against the
+ * target patterns, so a catch-all target such as `*` does not claim a release
+ * branch. The first match wins.
+ *
+ * @param lines - Configured release lines
+ * @param branches - Candidate branch names (e.g. the pushed branch, or PR base/head)
+ * @returns The resolved line, or undefined if no line matches
+ */
+export function resolveReleaseLine(
+	lines: ReleaseLine[],
+	branches: { target?: string; release?: string },
+): ResolvedReleaseLine | undefined {
+	if (branches.release) {
+		for (const line of lines) {
+			const captures = matchPattern(line.release, branches.release);
+			if (captures) {
+				const targetBranch = substitutePattern(line.target, captures);
+				return { name: targetBranch, targetBranch, releaseBranch: branches.release };
+			}
+		}
+	}
+
+	if (branches.target) {
+		for (const line of lines) {
+			const captures = matchPattern(line.target, branches.target);
+			if (captures) {
+				return {
+					name: branches.target,
+					targetBranch: branches.target,
+					releaseBranch: substitutePattern(line.release, captures),
+				};
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Matches a branch against a wildcard pattern
+ *
+ * @param pattern - Pattern with optional `*` wildcards
+ * @param branch - Branch name to match
+ * @returns Captured wildcard values, or null if the branch does not match
+ */
+export function matchPattern(pattern: string, branch: string): string[] | null {
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join("(.+)");
+	const match = branch.match(new RegExp(`^${source}$`));
+
+	return match ? match.slice(1) : null;
+}
+
+/**
+ * Replaces each `*` in a pattern with the corresponding captured value
+ */
+function substitutePattern(pattern: string, captures: string[]): string {
+	let index = 0;
+	return pattern.replace(/\*/g, () => captures[index++] ?? "");
+}
+
+/**
+ * Counts `*` wildcards in a pattern
+ */
+function countWildcards(pattern: string): number {
+	return pattern.split("*").length - 1;
+}
@@ -0,0 +1,198 @@
+import type { NextVersion } from "./next-versions.js";
+import type { BumpType, ParsedChangeset, PreState } from "./parse-changesets.js";
+import type { WorkspacePackage } from "./workspace-packages.js";
+
+/**
+ * Release notes under one section heading of a bump group
+ */
+export interface ReleaseNotesSection {
+	/** Section heading from the changeset summaries, or null for summaries without headings */
+	heading: string | null;
+	/** Markdown list entries */
+	entries: string[];
+}
+
+/**
+ * Release notes of one bump type (rendered as "Major Changes", "Minor Changes" or "Patch Changes")
+ */
+export interface ReleaseNotesGroup {
+	/** Bump type of the changesets in the group */
+	bump: Exclude<BumpType, "none">;
+	/** Sections in order of first appearance (untitled first) */
+	sections: ReleaseNotesSection[];
+}
+
+/**
+ * Release notes preview of a released package
+ */
+export interface PackageReleaseNotes {
+	/** Package name */
+	name: string;
+	/** Next version, or null when it is unknown (e.g. no workspace) */
+	version: string | null;
+	/** Groups ordered major, minor, patch */
+	groups: ReleaseNotesGroup[];
+}
+
+/**
+ * Options for building release notes
+ */
+export interface BuildReleaseNotesOptions {
+	/** Parsed changesets */
+	changesets: ParsedChangeset[];
+	/** Effective bumps of the released packages */
+	packageBumps: Map<string, BumpType>;
+	/** Workspace packages by name (for "Updated dependencies" entries) */
+	packages: Map<string, WorkspacePackage>;
+	/** Projected versions of the released packages */
+	nextVersions: NextVersion[];
+	/** Pre mode state (changesets already consumed by a pre-release are left out) */
+	preState: PreState | null;
+}
+
+const GROUP_ORDER: readonly ReleaseNotesGroup["bump"][] = ["major", "minor", "patch"];
+
+const GROUP_TITLES: Record<ReleaseNotesGroup["bump"], string> = {
+	major: "Major Changes",
+	minor: "Minor Changes",
+	patch: "Patch Changes",
+};
+
+/**
+ * Builds a release notes preview for every released package
+ *
+ * @remarks
+ * Follows the default Changesets changelog generator: every changeset naming
+ * a package is listed under the bump type it declares for that package, and
+ * packages with released internal dependencies get an "Updated dependencies"
+ * entry under their own bump type. Summaries containing markdown headings
+ * (e.g. `## Features`) are split so their parts are listed under those headings,
+ * the way section-aware changelog generators group them. Commit hashes, PR
+ * links and contributor credits added by generators are not included.
+ *
+ * @param options - Changesets, bumps, workspace, next versions and pre mode state
+ * @returns Release notes sorted by package name
+ */
+export function buildReleaseNotes(options: BuildReleaseNotesOptions): PackageReleaseNotes[] {
+	const consumed = new Set(options.preState?.mode === "pre" ? options.preState.changesets : []);
+	const changesets = options.changesets.filter((changeset) => !consumed.has(changeset.id));
+	const versions = new Map(options.nextVersions.map((entry) => [entry.name, entry.next]));
+	const notes: PackageReleaseNotes[] = [];
+
+	for (const [name, bump] of [...options.packageBumps].sort(([a], [b]) => a.localeCompare(b))) {
+		if (bump === "none") continue;
+
+		const groups = new Map<ReleaseNotesGroup["bump"], ReleaseNotesSection[]>();
+		const addEntry = (groupBump: ReleaseNotesGroup["bump"], heading: string | null, entry: string) => {
+			const sections = groups.get(groupBump) ?? [];
+			let section = sections.find((candidate) => candidate.heading === heading);
+			if (!section) {
+				section = { heading, entries: [] };
+				// Untitled entries come before headed sections
+				if (heading === null) sections.unshift(section);
+				else sections.push(section);
+			}
+			section.entries.push(entry);
+			groups.set(groupBump, sections);
+		};
+
+		for (const changeset of changesets) {
+			const release = changeset.releases.find((candidate) => candidate.name === name);
+			if (!release || release.type === "none") continue;
+
+			for (const part of splitSummary(changeset.summary)) {
+				addEntry(release.type, part.heading, toListEntry(part.body));
+			}
+		}
+
+		const updatedDependencies = (options.packages.get(name)?.dependencies ?? [])
+			.filter((dependency) => {
+				const dependencyBump = options.packageBumps.get(dependency.name);
+				return dependency.type !== "devDependencies" && dependencyBump !== undefined && dependencyBump !== "none";
+			})
+			.map((dependency) => {
+				const version = versions.get(dependency.name);
+				return `  - ${version ? `${dependency.name}@${version}` : dependency.name}`;
+			});
+
+		if (updatedDependencies.length > 0) {
+			addEntry(bump, null, ["- Updated dependencies", ...[...new Set(updatedDependencies)].sort()].join("\n"));
+		}
+
+		notes.push({
+			name,
+			version: versions.get(name) ?? null,
+			groups: GROUP_ORDER.filter((groupBump) => groups.has(groupBump)).map((groupBump) => ({
+				bump: groupBump,
+				sections: groups.get(groupBump) ?? [],
+			})),
+		});
+	}
+
+	return notes;
+}
+
+/**
+ * Renders release notes as changelog markdown
+ *
+ * @param notes - Release notes of a package
+ * @returns Markdown with a version heading, bump type headings and section headings
+ */
+export function renderReleaseNotes(notes: PackageReleaseNotes): string {
+	const lines = [`## ${notes.version ?? "Unreleased"}`];
+
+	if (notes.groups.length === 0) {
+		lines.push("", "_No changeset entries_");
+	}
+
+	for (const group of notes.groups) {
+		lines.push("", `### ${GROUP_TITLES[group.bump]}`);
+
+		for (const section of group.sections) {
+			if (section.heading) {
+				lines.push("", `#### ${section.heading}`);
+			}
+			lines.push("", section.entries.join("\n"));
+		}
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Splits a changeset summary at its markdown headings (headings inside code fences are kept)
+ */
+function splitSummary(summary: string): Array<{ heading: string | null; body: string }> {
+	const parts: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }];
+	let inFence = false;
+
+	for (const line of summary.split("\n")) {
+		if (/^\s*(```|~~~)/.test(line)) {
+			inFence = !inFence;
+		}
+
+		const heading = inFence ? null : /^#{1,6}\s+(.+?)\s*#*\s*$/.exec(line);
+		if (heading) {
+			parts.push({ heading: heading[1], lines: [] });
+		} else {
+			parts[parts.length - 1].lines.push(line.trimEnd());
+		}
+	}
+
+	return parts
+		.map((part) => ({ heading: part.heading, body: part.lines.join("\n").trim() }))
+		.filter((part) => part.body);
+}
+
+/**
+ * Formats a summary part as a list entry (the first line becomes the item, the rest is indented);
+ * parts that already are lists are kept as they are
+ */
+function toListEntry(body: string): string {
+	if (/^([-*+]|\d+\.)\s/.test(body)) {
+		return body;
+	}
+
+	const [firstLine, ...rest] = body.split("\n");
+	return [`- ${firstLine}`, ...rest.map((line) => (line ? `  ${line}` : line))].join("\n");
+}
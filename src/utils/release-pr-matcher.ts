@@ -0,0 +1,116 @@
+/**
+ * Strategy for identifying the release PR
+ * - "branch": head branch is the release branch
+ * - "label": PR carries one of the configured labels
+ * - "author": PR was opened by one of the configured logins (e.g. a bot)
+ */
+export type ReleasePRStrategy = "branch" | "label" | "author";
+
+/**
+ * How release PRs are identified
+ *
+ * @remarks
+ * All configured strategies must match. Combining `label` and `author`, for
+ * example, only accepts labelled PRs opened by the release bot. The base
+ * branch must always be the target branch.
+ */
+export interface ReleasePRMatcher {
+	/** Strategies that must all match (default: ["branch"]) */
+	strategies: ReleasePRStrategy[];
+	/** Labels identifying the release PR (any of them) */
+	labels: string[];
+	/** Author logins identifying the release PR (any of them, case-insensitive) */
+	authors: string[];
+}
+
+/**
+ * Minimal pull request shape shared by event payloads and REST responses
+ */
+export interface ReleasePRCandidate {
+	head?: { ref: string };
+	base?: { ref: string };
+	labels?: Array<{ name?: string } | string>;
+	user?: { login?: string } | null;
+}
+
+/**
+ * Default matcher: identify release PRs by head branch only
+ */
+export const DEFAULT_RELEASE_PR_MATCHER: ReleasePRMatcher = { strategies: ["branch"], labels: [], authors: [] };
+
+const STRATEGIES: readonly ReleasePRStrategy[] = ["branch", "label", "author"];
+
+/**
+ * Builds a release PR matcher from action inputs
+ *
+ * @param inputs - Raw input values (comma or newline separated lists)
+ * @returns The release PR matcher
+ * @throws Error if a strategy is unknown or a strategy lacks its labels/authors
+ */
+export function parseReleasePRMatcher(inputs: { strategy: string; labels: string; authors: string }): ReleasePRMatcher {
+	const strategies = splitList(inputs.strategy);
+	const labels = splitList(inputs.labels);
+	const authors = splitList(inputs.authors);
+
+	for (const strategy of strategies) {
+		if (!STRATEGIES.includes(strategy as ReleasePRStrategy)) {
+			throw new Error(`Unknown release PR strategy "${strategy}" (expected one of: ${STRATEGIES.join(", ")})`);
+		}
+	}
+
+	if (strategies.includes("label") && labels.length === 0) {
+		throw new Error(`Release PR strategy "label" requires at least one label in release-pr-labels`);
+	}
+
+	if (strategies.includes("author") && authors.length === 0) {
+		throw new Error(`Release PR strategy "author" requires at least one login in release-pr-authors`);
+	}
+
+	return {
+		strategies: strategies.length > 0 ? (strategies as ReleasePRStrategy[]) : DEFAULT_RELEASE_PR_MATCHER.strategies,
+		labels,
+		authors,
+	};
+}
+
+/**
+ * Checks whether a pull request is a release PR
+ *
+ * @param pr - Pull request from an event payload or the REST API
+ * @param matcher - How release PRs are identified
+ * @param branches - Release and target branch names
+ * @returns Whether every configured strategy matches and the PR targets the target branch
+ */
+export function isReleasePR(
+	pr: ReleasePRCandidate | undefined,
+	matcher: ReleasePRMatcher,
+	branches: { releaseBranch: string; targetBranch: string },
+): boolean {
+	if (!pr || pr.base?.ref !== branches.targetBranch) {
+		return false;
+	}
+
+	return matcher.strategies.every((strategy) => {
+		if (strategy === "label") {
+			const names = (pr.labels ?? []).map((label) => (typeof label === "string" ? label : label.name));
+			return matcher.labels.some((label) => names.includes(label));
+		}
+
+		if (strategy === "author") {
+			const login = pr.user?.login?.toLowerCase();
+			return !!login && matcher.authors.some((author) => author.toLowerCase() === login);
+		}
+
+		return pr.head?.ref === branches.releaseBranch;
+	});
+}
+
+/**
+ * Splits a comma or newline separated input into trimmed, non-empty items
+ */
+function splitList(input: string): string[] {
+	return input
+		.split(/[\n,]/)
+		.map((item) => item.trim())
+		.filter(Boolean);
+}
@@ -0,0 +1,237 @@
+import * as path from "node:path";
+import type { getOctokit, context as githubContext } from "@actions/github";
+import { matchGlob } from "./changeset-coverage.js";
+import type { ChangesetFiles } from "./parse-changesets.js";
+import { isChangesetFile } from "./parse-changesets.js";
+import type { WorkspacePackage, WorkspacePackageJson } from "./workspace-packages.js";
+import { buildWorkspacePackages } from "./workspace-packages.js";
+
+/**
+ * Options for reading the changeset directory through the GitHub API
+ */
+export interface FetchChangesetFilesOptions {
+	/** Octokit instance */
+	octokit: ReturnType<typeof getOctokit>;
+	/** GitHub context */
+	context: typeof githubContext;
+	/** Commit, branch or tag to read (default: context.sha) */
+	ref?: string;
+	/** Path to the .changeset directory (default: .changeset) */
+	changesetPath?: string;
+}
+
+/**
+ * Reads the changeset directory of a commit through the GitHub API
+ *
+ * @remarks
+ * Lists the directory with the contents API and downloads the changeset files,
+ * `pre.json` and `config.json` as git blobs, so no checkout is needed. The
+ * result feeds {@link parseChangesetFiles} like a local read would.
+ *
+ * @param options - Octokit, context, ref and changeset directory
+ * @returns Changeset directory contents by file name (empty when the directory does not exist)
+ */
+export async function fetchChangesetFiles(options: FetchChangesetFilesOptions): Promise<ChangesetFiles> {
+	const { octokit, context } = options;
+	const ref = options.ref ?? context.sha;
+	const changesetPath = (options.changesetPath ?? ".changeset").replace(/^\.\//, "").replace(/\/$/, "");
+	const files: ChangesetFiles = new Map();
+
+	let entries: Array<{ name: string; type: string; sha: string }>;
+	try {
+		const { data } = await octokit.rest.repos.getContent({
+			owner: context.repo.owner,
+			repo: context.repo.repo,
+			path: changesetPath,
+			ref,
+		});
+		entries = Array.isArray(data) ? data : [];
+	} catch (error) {
+		if ((error as { status?: number }).status === 404) {
+			return files;
+		}
+		throw error;
+	}
+
+	const wanted = entries.filter(
+		(entry) =>
+			entry.type === "file" &&
+			(isChangesetFile(entry.name) || entry.name === "pre.json" || entry.name === "config.json"),
+	);
+
+	const blobs = await Promise.all(
+		wanted.map(async (entry) => [entry.name, await readBlob(octokit, context, entry.sha)]),
+	);
+
+	for (const [name, content] of blobs) {
+		files.set(name, content);
+	}
+
+	return files;
+}
+
+/**
+ * Options for reading the workspace packages through the GitHub API
+ */
+export interface FetchWorkspacePackagesOptions {
+	/** Octokit instance */
+	octokit: ReturnType<typeof getOctokit>;
+	/** GitHub context */
+	context: typeof githubContext;
+	/** Commit, branch or tag to read (default: context.sha) */
+	ref?: string;
+}
+
+/**
+ * Reads the packages of the workspace at a commit through the GitHub API
+ *
+ * @remarks
+ * Lists the repository tree with the git trees API and finds the packages the
+ * way `readWorkspacePackages` does for a checkout: the `packages` of
+ * `pnpm-workspace.yaml` when it exists, otherwise the `workspaces` of the root
+ * `package.json` (npm and yarn), otherwise the root package alone. The
+ * package.json of every matched directory is downloaded as a git blob.
+ *
+ * @param options - Octokit, context and ref
+ * @returns Map of package name to package details (empty without a root package.json)
+ * @throws Error if the tree is too large for the trees API to list in full
+ */
+export async function fetchWorkspacePackages(
+	options: FetchWorkspacePackagesOptions,
+): Promise<Map<string, WorkspacePackage>> {
+	const { octokit, context } = options;
+	const ref = options.ref ?? context.sha;
+
+	const { data: tree } = await octokit.rest.git.getTree({
+		owner: context.repo.owner,
+		repo: context.repo.repo,
+		tree_sha: ref,
+		recursive: "true",
+	});
+
+	if (tree.truncated) {
+		throw new Error(`The repository tree at ${ref} is too large to read the workspace through the API`);
+	}
+
+	const files = new Map(
+		tree.tree.flatMap((entry) => (entry.type === "blob" && entry.path && entry.sha ? [[entry.path, entry.sha]] : [])),
+	);
+
+	const rootSha = files.get("package.json");
+	if (!rootSha) {
+		return new Map();
+	}
+
+	const rootPackageJson = JSON.parse(await readBlob(octokit, context, rootSha)) as WorkspacePackageJson & {
+		workspaces?: string[] | { packages?: string[] };
+	};
+
+	const pnpmWorkspaceSha = files.get("pnpm-workspace.yaml");
+	const patterns = pnpmWorkspaceSha
+		? parsePnpmWorkspacePatterns(await readBlob(octokit, context, pnpmWorkspaceSha))
+		: Array.isArray(rootPackageJson.workspaces)
+			? rootPackageJson.workspaces
+			: rootPackageJson.workspaces?.packages;
+
+	if (!patterns) {
+		return rootPackageJson.name ? buildWorkspacePackages([{ path: ".", packageJson: rootPackageJson }]) : new Map();
+	}
+
+	const packageJsons = [...files].filter(
+		([file]) =>
+			path.posix.basename(file) === "package.json" &&
+			!file.split("/").some((segment) => segment === "node_modules" || segment === "__fixtures__") &&
+			matchWorkspacePatterns(patterns, path.posix.dirname(file)),
+	);
+
+	const infos = await Promise.all(
+		packageJsons.map(async ([file, sha]) => ({
+			path: path.posix.dirname(file),
+			packageJson: JSON.parse(await readBlob(octokit, context, sha)) as WorkspacePackageJson,
+		})),
+	);
+
+	return buildWorkspacePackages(infos.filter((info) => info.packageJson.name));
+}
+
+/**
+ * Reads the `packages` list of a pnpm-workspace.yaml
+ *
+ * @remarks
+ * Only the block sequence form pnpm documents is read (`packages:` followed by
+ * `- "pattern"` lines, with optional quotes and comments).
+ *
+ * @param content - pnpm-workspace.yaml content
+ * @returns Package patterns, or undefined when the file has no `packages` key
+ */
+function parsePnpmWorkspacePatterns(content: string): string[] | undefined {
+	let patterns: string[] | undefined;
+
+	for (const raw of content.split(/\r\n|\r|\n/)) {
+		const line = raw.replace(/(^|\s)#.*$/, "").trimEnd();
+		if (!line.trim()) continue;
+
+		if (/^\S/.test(line)) {
+			if (patterns) break;
+			if (/^packages\s*:$/.test(line)) patterns = [];
+			continue;
+		}
+
+		const item = line.trim().match(/^-\s*(.*)$/);
+		if (patterns && item) {
+			patterns.push(item[1].replace(/^(["'])(.*)\1$/, "$2"));
+		}
+	}
+
+	return patterns;
+}
+
+/**
+ * Checks a package directory against workspace patterns
+ *
+ * @remarks
+ * Later patterns win, so a `!` pattern excludes the directories an earlier
+ * pattern matched.
+ *
+ * @param patterns - Workspace patterns (e.g. "packages/*", "!**\/test/**")
+ * @param directory - Package directory relative to the repository root
+ * @returns Whether the directory is a workspace package
+ */
+function matchWorkspacePatterns(patterns: string[], directory: string): boolean {
+	let matched = false;
+
+	for (const pattern of patterns) {
+		const negated = pattern.startsWith("!");
+		const glob = pattern
+			.slice(negated ? 1 : 0)
+			.replace(/^\.\//, "")
+			.replace(/\/+$/, "");
+		// Anchor to the root, matchGlob matches globs without a "/" in any directory
+		if (matchGlob(`/${glob}`, directory)) {
+			matched = !negated;
+		}
+	}
+
+	return matched;
+}
+
+/**
+ * Downloads a git blob as UTF-8 text
+ *
+ * @param octokit - Octokit instance
+ * @param context - GitHub context
+ * @param sha - Blob SHA
+ * @returns Blob content
+ */
+async function readBlob(
+	octokit: ReturnType<typeof getOctokit>,
+	context: typeof githubContext,
+	sha: string,
+): Promise<string> {
+	const { data: blob } = await octokit.rest.git.getBlob({
+		owner: context.repo.owner,
+		repo: context.repo.repo,
+		file_sha: sha,
+	});
+	return Buffer.from(blob.content, blob.encoding === "base64" ? "base64" : "utf8").toString("utf8");
+}
@@ -0,0 +1,64 @@
+import type { PhaseDetectionResult } from "./detect-workflow-phase.js";
+import type { BumpType, ParseChangesetsResult, ReleaseSource } from "./parse-changesets.js";
+
+/**
+ * Version of the `result` output schema
+ *
+ * @remarks
+ * Bump this when a field is renamed, removed or changes type. Adding fields
+ * does not require a new version.
+ */
+export const RESULT_SCHEMA_VERSION = 1;
+
+/**
+ * Changeset results with their maps serialized as plain objects
+ */
+export type SerializedChangesetsResult = Omit<
+	ParseChangesetsResult,
+	"declaredBumps" | "packageBumps" | "packageSources" | "packagePaths"
+> & {
+	/** Map of package name to highest bump type declared in changesets */
+	declaredBumps: Record<string, BumpType>;
+	/** Map of package name to effective bump type */
+	packageBumps: Record<string, BumpType>;
+	/** Map of package name to release source */
+	packageSources: Record<string, ReleaseSource>;
+	/** Map of package name to workspace path */
+	packagePaths: Record<string, string>;
+};
+
+/**
+ * Contents of the `result` output
+ */
+export interface ResultOutput {
+	/** Schema version (see {@link RESULT_SCHEMA_VERSION}) */
+	schemaVersion: typeof RESULT_SCHEMA_VERSION;
+	/** Full phase detection result */
+	phase: PhaseDetectionResult | Omit<PhaseDetectionResult, "mergedReleasePRNumber">;
+	/** Full changeset parsing result */
+	changesets: SerializedChangesetsResult;
+}
+
+/**
+ * Builds the `result` output
+ *
+ * @param phaseResult - Phase detection result
+ * @param changesetResult - Changeset parsing result
+ * @returns JSON-serializable result
+ */
+export function buildResultOutput(
+	phaseResult: PhaseDetectionResult | Omit<PhaseDetectionResult, "mergedReleasePRNumber">,
+	changesetResult: ParseChangesetsResult,
+): ResultOutput {
+	return {
+		schemaVersion: RESULT_SCHEMA_VERSION,
+		phase: phaseResult,
+		changesets: {
+			...changesetResult,
+			declaredBumps: Object.fromEntries(changesetResult.declaredBumps),
+			packageBumps: Object.fromEntries(changesetResult.packageBumps),
+			packageSources: Object.fromEntries(changesetResult.packageSources),
+			packagePaths: Object.fromEntries(changesetResult.packagePaths),
+		},
+	};
+}
@@ -77,6 +77,13 @@ export const summaryWriter = {
 		return tsMarkdown([codeblock(code, { language: lang || undefined, fenced: true })]);
 	},
 
+	/**
+	 * Build a collapsible section (rendered as an HTML details element)
+	 */
+	details(summary: string, content: string): string {
+		return `<details>\n<summary>${summary}</summary>\n\n${content}\n\n</details>`;
+	},
+
 	/**
 	 * Build a complete summary section with heading and content.
 	 */
@@ -0,0 +1,109 @@
+import * as path from "node:path";
+import { getPackageInfos, getWorkspaceInfos } from "workspace-tools";
+
+/**
+ * Dependency field of package.json
+ */
+export type DependencyType = "dependencies" | "devDependencies" | "peerDependencies" | "optionalDependencies";
+
+const DEPENDENCY_TYPES: readonly DependencyType[] = [
+	"dependencies",
+	"devDependencies",
+	"peerDependencies",
+	"optionalDependencies",
+];
+
+/**
+ * A dependency on another package of the workspace
+ */
+export interface WorkspaceDependency {
+	/** Name of the workspace package depended on */
+	name: string;
+	/** Version range as written in package.json (e.g. "^1.0.0", "workspace:*") */
+	range: string;
+	/** package.json field the dependency is declared in */
+	type: DependencyType;
+}
+
+/**
+ * A package in the workspace
+ */
+export interface WorkspacePackage {
+	/** Package name */
+	name: string;
+	/** Package directory relative to the workspace root ("." for the root package) */
+	path: string;
+	/** Current version from package.json */
+	version: string;
+	/** Whether the package is private */
+	private: boolean;
+	/** Dependencies on other workspace packages */
+	dependencies: WorkspaceDependency[];
+}
+
+/**
+ * The package.json fields read for a workspace package
+ */
+export type WorkspacePackageJson = {
+	name: string;
+	version?: string;
+	private?: boolean;
+} & Partial<Record<DependencyType, Record<string, string>>>;
+
+/**
+ * Reads the packages of the workspace
+ *
+ * @remarks
+ * Uses the workspace manager config (pnpm, yarn, npm, etc.) to find packages.
+ * Single-package repositories return the root package. Only dependencies on
+ * other workspace packages are kept.
+ *
+ * @param cwd - Workspace root (default: current working directory)
+ * @returns Map of package name to package details
+ */
+export function readWorkspacePackages(cwd: string = process.cwd()): Map<string, WorkspacePackage> {
+	const infos =
+		getWorkspaceInfos(cwd) ??
+		Object.values(getPackageInfos(cwd)).map((packageJson) => ({
+			name: packageJson.name,
+			path: path.dirname(packageJson.packageJsonPath),
+			packageJson,
+		}));
+
+	return buildWorkspacePackages(
+		infos.map((info) => ({ path: path.relative(cwd, info.path) || ".", packageJson: info.packageJson })),
+	);
+}
+
+/**
+ * Builds workspace packages from their package.json files
+ *
+ * @remarks
+ * Shared by the local and the API workspace readers. Only dependencies on
+ * other packages of the list are kept.
+ *
+ * @param infos - Package directories relative to the workspace root ("." for the root) and their package.json
+ * @returns Map of package name to package details
+ */
+export function buildWorkspacePackages(
+	infos: Array<{ path: string; packageJson: WorkspacePackageJson }>,
+): Map<string, WorkspacePackage> {
+	const packages = new Map<string, WorkspacePackage>();
+	const names = new Set(infos.map((info) => info.packageJson.name));
+
+	for (const { path: packagePath, packageJson } of infos) {
+		packages.set(packageJson.name, {
+			name: packageJson.name,
+			path: packagePath,
+			version: packageJson.version ?? "",
+			private: packageJson.private === true,
+			dependencies: DEPENDENCY_TYPES.flatMap((type) =>
+				Object.entries(packageJson[type] ?? {})
+					.filter(([name]) => names.has(name))
+					.map(([name, range]) => ({ name, range, type })),
+			),
+		});
+	}
+
+	return packages;
+}